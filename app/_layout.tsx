@@ -5,8 +5,11 @@ import {
   Quicksand_600SemiBold,
   Quicksand_700Bold,
 } from "@expo-google-fonts/quicksand";
+import { LanguageProvider } from "@/hooks/useLanguage";
+import { ThemeProvider, useTheme } from "@/hooks/useTheme";
 import { useFonts } from "expo-font";
 import { Stack } from "expo-router";
+import { StatusBar } from "expo-status-bar";
 import { SafeAreaView } from "react-native-safe-area-context";
 
 export default function RootLayout() {
@@ -23,8 +26,27 @@ export default function RootLayout() {
   if (!fontsLoaded) return null;
 
   return (
-    <SafeAreaView style={{ flex: 1 }}>
-      <Stack screenOptions={{ headerShown: false }} />
-    </SafeAreaView>
+    <LanguageProvider>
+      <ThemeProvider>
+        <ThemedStack />
+      </ThemeProvider>
+    </LanguageProvider>
   );
 }
+
+//screens and system bars in the active theme
+const ThemedStack = () => {
+  const { name, colors } = useTheme();
+
+  return (
+    <SafeAreaView style={{ flex: 1, backgroundColor: colors.primary }}>
+      <StatusBar style={name === "light" ? "dark" : "light"} />
+      <Stack
+        screenOptions={{
+          headerShown: false,
+          contentStyle: { backgroundColor: colors.primary },
+        }}
+      />
+    </SafeAreaView>
+  );
+};
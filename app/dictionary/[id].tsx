@@ -0,0 +1,88 @@
+import { createDictionaryScreenStyle } from "@/assets/styles/DictionaryScreen.style";
+import { useLanguage } from "@/hooks/useLanguage";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
+import SignDictionaryService from "@/services/SignDictionaryService";
+import FontAwesome from "@expo/vector-icons/FontAwesome";
+import { Image } from "expo-image";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { ScrollView, Text, TouchableOpacity, View } from "react-native";
+
+const SignDetail = () => {
+  const { colors } = useTheme();
+  const DictionaryScreenStyle = useThemedStyles(createDictionaryScreenStyle);
+  const { language, strings } = useLanguage();
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const entry = SignDictionaryService.get(id);
+
+  const handleNavigate = () => {
+    router.back();
+  };
+
+  return (
+    <ScrollView
+      style={DictionaryScreenStyle.DetailContainer}
+      contentContainerStyle={DictionaryScreenStyle.DetailContent}
+    >
+      <View style={DictionaryScreenStyle.BackButtonContainer}>
+        <TouchableOpacity onPress={handleNavigate}>
+          <FontAwesome name="long-arrow-left" size={35} color={colors.text} />
+        </TouchableOpacity>
+      </View>
+
+      {entry ? (
+        <>
+          {entry.image ? (
+            <Image
+              source={entry.image}
+              style={DictionaryScreenStyle.DetailImage}
+              contentFit="contain"
+            />
+          ) : (
+            <View style={DictionaryScreenStyle.DetailPlaceholder}>
+              <Text style={DictionaryScreenStyle.DetailPlaceholderText}>
+                {entry.title}
+              </Text>
+              <Text style={DictionaryScreenStyle.DetailPlaceholderNote}>
+                {strings.common.noPhotoYet}
+              </Text>
+            </View>
+          )}
+
+          <View>
+            <Text style={DictionaryScreenStyle.Title}>{entry.title}</Text>
+            <Text style={DictionaryScreenStyle.DetailCategory}>
+              {strings.dictionary[entry.category]}
+            </Text>
+          </View>
+
+          <View>
+            <Text style={DictionaryScreenStyle.Label}>
+              {strings.dictionary.howToSign}
+            </Text>
+            <Text style={DictionaryScreenStyle.BodyText}>
+              {entry.description[language]}
+            </Text>
+          </View>
+
+          {entry.category === "word" && (
+            <View>
+              <Text style={DictionaryScreenStyle.Label}>
+                {strings.dictionary.typedAs}
+              </Text>
+              <Text style={DictionaryScreenStyle.BodyText}>
+                {entry.phrases.join(", ")}
+              </Text>
+            </View>
+          )}
+        </>
+      ) : (
+        <Text style={DictionaryScreenStyle.EmptyText}>
+          {strings.dictionary.notFound}
+        </Text>
+      )}
+    </ScrollView>
+  );
+};
+
+export default SignDetail;
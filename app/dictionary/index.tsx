@@ -0,0 +1,128 @@
+import { createDictionaryScreenStyle } from "@/assets/styles/DictionaryScreen.style";
+import { useStrings } from "@/hooks/useLanguage";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
+import SignDictionaryService, {
+  type DictionaryCategory,
+} from "@/services/SignDictionaryService";
+import FontAwesome from "@expo/vector-icons/FontAwesome";
+import { Image } from "expo-image";
+import { useRouter } from "expo-router";
+import { useMemo, useState } from "react";
+import {
+  FlatList,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+const Dictionary = () => {
+  const { colors } = useTheme();
+  const DictionaryScreenStyle = useThemedStyles(createDictionaryScreenStyle);
+  const strings = useStrings();
+  const router = useRouter();
+  const [query, setQuery] = useState("");
+  const [category, setCategory] = useState<DictionaryCategory | null>(null);
+
+  const entries = useMemo(
+    () => SignDictionaryService.search(query, category ?? undefined),
+    [query, category]
+  );
+
+  const categories: { id: DictionaryCategory | null; title: string }[] = [
+    { id: null, title: strings.dictionary.all },
+    { id: "letter", title: strings.dictionary.letters },
+    { id: "number", title: strings.dictionary.numbers },
+    { id: "word", title: strings.dictionary.words },
+  ];
+
+  const handleNavigate = () => {
+    router.back();
+  };
+
+  return (
+    <View style={DictionaryScreenStyle.MainContainer}>
+      <View style={DictionaryScreenStyle.BackButtonContainer}>
+        <TouchableOpacity onPress={handleNavigate}>
+          <FontAwesome name="long-arrow-left" size={35} color={colors.text} />
+        </TouchableOpacity>
+      </View>
+
+      <Text style={DictionaryScreenStyle.Title}>
+        {strings.dictionary.title}
+      </Text>
+
+      <TextInput
+        style={DictionaryScreenStyle.SearchInput}
+        placeholder={strings.dictionary.searchPlaceholder}
+        placeholderTextColor={colors.textMuted}
+        value={query}
+        onChangeText={setQuery}
+        autoCapitalize="none"
+        autoCorrect={false}
+      />
+
+      <View style={DictionaryScreenStyle.ChipRow}>
+        {categories.map((option) => (
+          <TouchableOpacity
+            key={option.id ?? "all"}
+            style={[
+              DictionaryScreenStyle.Chip,
+              category === option.id && DictionaryScreenStyle.ChipActive,
+            ]}
+            onPress={() => setCategory(option.id)}
+          >
+            <Text
+              style={[
+                DictionaryScreenStyle.ChipText,
+                category === option.id && DictionaryScreenStyle.ChipTextActive,
+              ]}
+            >
+              {option.title}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <FlatList
+        data={entries}
+        keyExtractor={(item) => item.id}
+        numColumns={3}
+        columnWrapperStyle={DictionaryScreenStyle.GridRow}
+        contentContainerStyle={DictionaryScreenStyle.GridContent}
+        ListEmptyComponent={
+          <Text style={DictionaryScreenStyle.EmptyText}>
+            {strings.dictionary.noMatches}
+          </Text>
+        }
+        renderItem={({ item }) => (
+          <TouchableOpacity
+            style={DictionaryScreenStyle.Tile}
+            onPress={() =>
+              router.push({
+                pathname: "/dictionary/[id]",
+                params: { id: item.id },
+              })
+            }
+          >
+            {item.image ? (
+              <Image
+                source={item.image}
+                style={DictionaryScreenStyle.TileImage}
+              />
+            ) : (
+              <View style={DictionaryScreenStyle.TilePlaceholder}>
+                <FontAwesome name="hand-paper-o" size={36} color={colors.border} />
+              </View>
+            )}
+            <Text style={DictionaryScreenStyle.TileTitle} numberOfLines={1}>
+              {item.title}
+            </Text>
+          </TouchableOpacity>
+        )}
+      />
+    </View>
+  );
+};
+
+export default Dictionary;
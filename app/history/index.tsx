@@ -0,0 +1,142 @@
+import { createHistoryScreenStyle } from "@/assets/styles/HistoryScreen.style";
+import { useLanguage } from "@/hooks/useLanguage";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
+import HistoryService, { type Transcript } from "@/services/HistoryService";
+import FontAwesome from "@expo/vector-icons/FontAwesome";
+import { useFocusEffect, useRouter } from "expo-router";
+import { useCallback, useState } from "react";
+import {
+  Alert,
+  FlatList,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+// Characters of transcript text shown in the list
+const PREVIEW_LENGTH = 80;
+
+const History = () => {
+  const { colors } = useTheme();
+  const HistoryScreenStyle = useThemedStyles(createHistoryScreenStyle);
+  const { strings, locale } = useLanguage();
+  const router = useRouter();
+  const [query, setQuery] = useState("");
+  const [transcripts, setTranscripts] = useState<Transcript[]>([]);
+
+  const loadTranscripts = useCallback(() => {
+    HistoryService.search(query).then(setTranscripts);
+  }, [query]);
+
+  //reload when coming back from a reopened transcript, or when the search changes
+  useFocusEffect(loadTranscripts);
+
+  const handleNavigate = () => {
+    router.back();
+  };
+
+  const handleOpen = (transcript: Transcript) => {
+    router.push({
+      pathname:
+        transcript.mode === "camera" ? "/home/camera" : "/home/keyboard",
+      params: { transcriptId: transcript.id },
+    });
+  };
+
+  const handleDelete = (transcript: Transcript) => {
+    Alert.alert(strings.history.deleteTitle, strings.history.deleteMessage, [
+      { text: strings.common.cancel, style: "cancel" },
+      {
+        text: strings.history.delete,
+        style: "destructive",
+        onPress: async () => {
+          await HistoryService.remove(transcript.id);
+          loadTranscripts();
+        },
+      },
+    ]);
+  };
+
+  const handleClearAll = () => {
+    Alert.alert(strings.history.clearTitle, strings.history.clearMessage, [
+      { text: strings.common.cancel, style: "cancel" },
+      {
+        text: strings.history.clear,
+        style: "destructive",
+        onPress: async () => {
+          await HistoryService.clear();
+          loadTranscripts();
+        },
+      },
+    ]);
+  };
+
+  return (
+    <View style={HistoryScreenStyle.MainContainer}>
+      <View style={HistoryScreenStyle.BackButtonContainer}>
+        <TouchableOpacity onPress={handleNavigate}>
+          <FontAwesome name="long-arrow-left" size={35} color={colors.text} />
+        </TouchableOpacity>
+      </View>
+
+      <View style={HistoryScreenStyle.HeaderRow}>
+        <Text style={HistoryScreenStyle.Title}>{strings.history.title}</Text>
+        {transcripts.length > 0 && !query && (
+          <TouchableOpacity onPress={handleClearAll}>
+            <Text style={HistoryScreenStyle.ClearAllText}>
+              {strings.history.clearAll}
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <TextInput
+        style={HistoryScreenStyle.SearchInput}
+        placeholder={strings.history.searchPlaceholder}
+        placeholderTextColor={colors.textMuted}
+        value={query}
+        onChangeText={setQuery}
+        autoCorrect={false}
+      />
+
+      <FlatList
+        data={transcripts}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={HistoryScreenStyle.ListContent}
+        ListEmptyComponent={
+          <Text style={HistoryScreenStyle.EmptyText}>
+            {query ? strings.history.noMatches : strings.history.empty}
+          </Text>
+        }
+        renderItem={({ item }) => (
+          <TouchableOpacity
+            style={HistoryScreenStyle.Item}
+            onPress={() => handleOpen(item)}
+          >
+            <FontAwesome
+              name={item.mode === "camera" ? "camera" : "keyboard-o"}
+              size={22}
+              color={colors.secondary}
+            />
+            <View style={HistoryScreenStyle.ItemBody}>
+              <Text style={HistoryScreenStyle.ItemDate}>
+                {new Date(item.updatedAt).toLocaleString(locale)}
+              </Text>
+              <Text style={HistoryScreenStyle.ItemText} numberOfLines={2}>
+                {item.text.length > PREVIEW_LENGTH
+                  ? `${item.text.slice(0, PREVIEW_LENGTH)}…`
+                  : item.text}
+              </Text>
+            </View>
+            <TouchableOpacity onPress={() => handleDelete(item)}>
+              <FontAwesome name="trash" size={22} color={colors.danger} />
+            </TouchableOpacity>
+          </TouchableOpacity>
+        )}
+      />
+    </View>
+  );
+};
+
+export default History;
@@ -1,126 +1,120 @@
-import { CameraScreenStyle } from "@/assets/styles/CameraScreen.style";
+import { createCameraScreenStyle } from "@/assets/styles/CameraScreen.style";
+import { useHandSignDetection } from "@/hooks/useHandSignDetection";
+import { useStrings } from "@/hooks/useLanguage";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
+import HistoryService, { createTranscriptId } from "@/services/HistoryService";
+import SpeechService from "@/services/SpeechService";
 import FontAwesome from "@expo/vector-icons/FontAwesome";
 import { CameraView, useCameraPermissions } from "expo-camera";
-import { useRouter } from "expo-router";
-import { useEffect, useState, useRef, useCallback } from "react";
+import { useFocusEffect, useLocalSearchParams, useRouter } from "expo-router";
+import { useRef, useCallback, useEffect } from "react";
 import { Text, TouchableOpacity, View, ActivityIndicator, Alert } from "react-native";
-import TFLiteService from "@/services/TFLiteService";
+
+// Frame rates the FPS button cycles through
+const FPS_OPTIONS = [1, 2, 3, 5];
 
 const Camera = () => {
+  const { colors } = useTheme();
+  const CameraScreenStyle = useThemedStyles(createCameraScreenStyle);
+  const strings = useStrings();
   const router = useRouter();
   const [permission, requestPermission] = useCameraPermissions();
-  const [modelReady, setModelReady] = useState(false);
-  const [translatedText, setTranslatedText] = useState("");
-  const [currentLetter, setCurrentLetter] = useState("");
-  const [currentConfidence, setCurrentConfidence] = useState(0);
-  const [isProcessing, setIsProcessing] = useState(false);
-
-  const cameraRef = useRef<any>(null);
-  const predictionBuffer = useRef<string[]>([]);
-  const lastConfirmedLetter = useRef<string>("");
-  const [backendConnected, setBackendConnected] = useState(false);
-
-  // Initialize Model
-  useEffect(() => {
-    const initializeModel = async () => {
-      try {
-        await TFLiteService.initialize();
-        setModelReady(true);
-        setBackendConnected(TFLiteService.isBackendConnected());
-        console.log("Model ready");
-      } catch (error) {
-        console.error("Initialization error:", error);
-        Alert.alert("Error", "Failed to initialize model");
+  const cameraRef = useRef<CameraView>(null);
+  const { transcriptId } = useLocalSearchParams<{ transcriptId?: string }>();
+  //history entry the current text is saved to
+  const sessionId = useRef(transcriptId ?? createTranscriptId());
+  const savedText = useRef("");
+
+  const {
+    isReady: modelReady,
+    isPaused,
+    targetFps,
+    activeEngine,
+    demoTitle,
+    connection,
+    translatedText,
+    currentLetter,
+    currentConfidence,
+    currentTopK,
+    handBox,
+    predictionError,
+    pause,
+    resume,
+    setTargetFps,
+    refreshEngine,
+    clearText,
+    loadText,
+    deleteLastCharacter,
+    addSpace,
+    suggestions,
+    applySuggestion,
+  } = useHandSignDetection({
+    cameraRef,
+    onWordCompleted: async (word) => {
+      if ((await SpeechService.getOptions()).autoSpeak) {
+        SpeechService.speak(word);
       }
-    };
-
-    initializeModel();
-
-    return () => {
-      TFLiteService.dispose();
-    };
-  }, []);
+    },
+    onError: () => {
+      // Prediction errors are shown in the overlay; only init failures alert
+      if (!modelReady) {
+        Alert.alert(strings.common.error, strings.common.modelInitFailed);
+      }
+    },
+  });
+
+  // Re-check the engine when coming back, e.g. from Settings
+  useFocusEffect(
+    useCallback(() => {
+      if (!modelReady) return;
+      refreshEngine().catch((error) =>
+        console.warn("Error refreshing recognition engine:", error)
+      );
+    }, [modelReady, refreshEngine])
+  );
 
   const handleNavigate = () => {
     router.back();
   };
 
-  const clearText = useCallback(() => {
-    setTranslatedText("");
-    predictionBuffer.current = [];
-    lastConfirmedLetter.current = "";
-  }, []);
-
-  const deleteLastCharacter = useCallback(() => {
-    setTranslatedText((prev) => prev.slice(0, -1));
-  }, []);
-
-  const addSpace = useCallback(() => {
-    setTranslatedText((prev) => prev + " ");
-    lastConfirmedLetter.current = " ";
-  }, []);
-
-  // Simplified processing without heavy camera capture
-  const processFrame = useCallback(async () => {
-    if (isProcessing || !modelReady || !TFLiteService.isReady()) return;
-
-    setIsProcessing(true);
-
-    try {
-      // Create dummy image data for prediction
-      // In real implementation, this would come from camera frames
-      const dummyData = new Uint8Array(640 * 480 * 4);
-
-      // Get prediction from TFLite service
-      const result = await TFLiteService.predict(dummyData, 640, 480);
-
-      if (result) {
-        const { letter, confidence } = result;
-
-        setCurrentLetter(letter);
-        setCurrentConfidence(confidence);
-
-        // Stability filtering (matching Python implementation)
-        if (confidence > 0.85) {
-          predictionBuffer.current.push(letter);
-
-          if (predictionBuffer.current.length > 10) {
-            predictionBuffer.current.shift();
-          }
-
-          // Check if all predictions in buffer are the same
-          if (
-            predictionBuffer.current.length === 10 &&
-            new Set(predictionBuffer.current).size === 1
-          ) {
-            const confirmedLetter = predictionBuffer.current[0];
-
-            // Only add if different from last confirmed letter
-            if (confirmedLetter !== lastConfirmedLetter.current) {
-              setTranslatedText((prev) => prev + confirmedLetter);
-              lastConfirmedLetter.current = confirmedLetter;
-              console.log('✅ Confirmed letter:', confirmedLetter);
-            }
-          }
-        }
-      }
-    } catch (error) {
-      console.error("Processing error:", error);
-    } finally {
-      setIsProcessing(false);
-    }
-  }, [isProcessing, modelReady]);
-
-  // Auto-process at regular intervals
+  //continue a transcript reopened from History
   useEffect(() => {
-    if (!modelReady) return;
+    if (!transcriptId) return;
+    HistoryService.get(transcriptId).then((transcript) => {
+      if (!transcript) return;
+      savedText.current = transcript.text;
+      loadText(transcript.text);
+    });
+  }, [transcriptId, loadText]);
+
+  //save the transcript as it is signed
+  useEffect(() => {
+    if (!translatedText.trim() || translatedText === savedText.current) return;
+    savedText.current = translatedText;
+    HistoryService.save({
+      id: sessionId.current,
+      mode: "camera",
+      text: translatedText,
+    }).catch((error) => console.error("Error saving transcript:", error));
+  }, [translatedText]);
+
+  //clearing starts a new transcript, the old one stays in History
+  const handleClear = () => {
+    clearText();
+    sessionId.current = createTranscriptId();
+  };
 
-    const interval = setInterval(() => {
-      processFrame();
-    }, 500); // Process every 500ms
+  // Stop speaking when leaving the screen
+  useEffect(() => {
+    return () => {
+      SpeechService.stop();
+    };
+  }, []);
 
-    return () => clearInterval(interval);
-  }, [modelReady, processFrame]);
+  const cycleFps = () => {
+    const next = FPS_OPTIONS[(FPS_OPTIONS.indexOf(targetFps) + 1) % FPS_OPTIONS.length];
+    setTargetFps(next);
+  };
 
   // Request camera permission
   if (!permission) {
@@ -132,14 +126,14 @@ const Camera = () => {
       <View style={CameraScreenStyle.MainContainer}>
         <View style={CameraScreenStyle.PermissionContainer}>
           <Text style={CameraScreenStyle.PermissionText}>
-            We need your permission to show the camera
+            {strings.common.cameraPermission}
           </Text>
           <TouchableOpacity
             style={CameraScreenStyle.PermissionButton}
             onPress={requestPermission}
           >
             <Text style={CameraScreenStyle.PermissionButtonText}>
-              Grant Permission
+              {strings.common.grantPermission}
             </Text>
           </TouchableOpacity>
         </View>
@@ -151,9 +145,9 @@ const Camera = () => {
     return (
       <View style={CameraScreenStyle.MainContainer}>
         <View style={CameraScreenStyle.LoadingContainer}>
-          <ActivityIndicator size="large" color="#fff" />
+          <ActivityIndicator size="large" color={colors.secondary} />
           <Text style={CameraScreenStyle.LoadingText}>
-            Loading Model...
+            {strings.common.loadingModel}
           </Text>
         </View>
       </View>
@@ -164,7 +158,7 @@ const Camera = () => {
     <View style={CameraScreenStyle.MainContainer}>
       <View style={CameraScreenStyle.BackButtonContainer}>
         <TouchableOpacity onPress={handleNavigate}>
-          <FontAwesome name="long-arrow-left" size={35} color="#000" />
+          <FontAwesome name="long-arrow-left" size={35} color={colors.text} />
         </TouchableOpacity>
       </View>
 
@@ -174,64 +168,191 @@ const Camera = () => {
         facing="back"
       />
 
+      {/* Hand Guide: approximate, the photo and preview can differ in aspect */}
+      {handBox && !isPaused && (
+        <View pointerEvents="none" style={CameraScreenStyle.HandGuideLayer}>
+          <View
+            style={[
+              CameraScreenStyle.HandGuide,
+              {
+                left: `${handBox.x * 100}%`,
+                top: `${handBox.y * 100}%`,
+                width: `${handBox.width * 100}%`,
+                height: `${handBox.height * 100}%`,
+              },
+            ]}
+          />
+        </View>
+      )}
+
       <View style={CameraScreenStyle.OverlayContainer}>
         {/* Detection Info */}
         <View style={CameraScreenStyle.DetectionInfo}>
           <Text style={CameraScreenStyle.DetectionLabel}>
-            Detected: {currentLetter || "..."}
+            {isPaused
+              ? strings.camera.paused
+              : strings.camera.detected(currentLetter || "...")}
           </Text>
           <Text style={CameraScreenStyle.ConfidenceLabel}>
-            Confidence: {(currentConfidence * 100).toFixed(0)}%
+            {strings.camera.confidence((currentConfidence * 100).toFixed(0))}
           </Text>
         </View>
 
+        {/* Top Predictions */}
+        {!isPaused && currentTopK.length > 1 && (
+          <View style={CameraScreenStyle.TopKList}>
+            {currentTopK.map(({ letter, probability }, rank) => (
+              <View key={letter} style={CameraScreenStyle.TopKRow}>
+                <Text style={CameraScreenStyle.TopKLetter}>{letter}</Text>
+                <View style={CameraScreenStyle.TopKBarTrack}>
+                  <View
+                    style={[
+                      CameraScreenStyle.TopKBar,
+                      rank === 0 && CameraScreenStyle.TopKBarLeader,
+                      { width: `${Math.round(probability * 100)}%` },
+                    ]}
+                  />
+                </View>
+                <Text style={CameraScreenStyle.TopKPercent}>
+                  {(probability * 100).toFixed(0)}%
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {predictionError && (
+          <Text style={CameraScreenStyle.ErrorText}>
+            {strings.camera.noPrediction(
+              strings.camera.predictionErrors[predictionError]
+            )}
+          </Text>
+        )}
+
+        {/* Word Suggestions */}
+        {suggestions.length > 0 && (
+          <View style={CameraScreenStyle.SuggestionRow}>
+            {suggestions.map((word) => (
+              <TouchableOpacity
+                key={word}
+                style={CameraScreenStyle.SuggestionChip}
+                onPress={() => applySuggestion(word)}
+              >
+                <Text style={CameraScreenStyle.SuggestionText}>{word}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
         {/* Translated Text Display */}
         <View style={CameraScreenStyle.TextDisplay}>
-          <Text style={CameraScreenStyle.TextLabel}>Translated Text:</Text>
+          <Text style={CameraScreenStyle.TextLabel}>
+            {strings.camera.translatedText}
+          </Text>
           <Text style={CameraScreenStyle.TranslatedText}>
-            {translatedText || "(No text yet)"}
+            {translatedText || strings.camera.noTextYet}
           </Text>
         </View>
 
+        {/* Detection Controls */}
+        <View style={[CameraScreenStyle.ControlButtons, CameraScreenStyle.DetectionControls]}>
+          <TouchableOpacity
+            style={CameraScreenStyle.ControlButton}
+            onPress={isPaused ? resume : pause}
+          >
+            <FontAwesome name={isPaused ? "play" : "pause"} size={20} color={colors.overlayText} />
+            <Text style={CameraScreenStyle.ControlButtonText}>
+              {isPaused ? strings.camera.resume : strings.camera.pause}
+            </Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={CameraScreenStyle.ControlButton}
+            onPress={cycleFps}
+          >
+            <FontAwesome name="tachometer" size={20} color={colors.overlayText} />
+            <Text style={CameraScreenStyle.ControlButtonText}>{targetFps} FPS</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={CameraScreenStyle.ControlButton}
+            onPress={() => SpeechService.speak(translatedText)}
+            disabled={!translatedText.trim()}
+          >
+            <FontAwesome name="volume-up" size={20} color={colors.overlayText} />
+            <Text style={CameraScreenStyle.ControlButtonText}>
+              {strings.camera.speak}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
         {/* Control Buttons */}
         <View style={CameraScreenStyle.ControlButtons}>
           <TouchableOpacity
             style={CameraScreenStyle.ControlButton}
             onPress={addSpace}
           >
-            <FontAwesome name="space-shuttle" size={20} color="#fff" />
-            <Text style={CameraScreenStyle.ControlButtonText}>Space</Text>
+            <FontAwesome name="space-shuttle" size={20} color={colors.overlayText} />
+            <Text style={CameraScreenStyle.ControlButtonText}>
+              {strings.camera.space}
+            </Text>
           </TouchableOpacity>
 
           <TouchableOpacity
             style={CameraScreenStyle.ControlButton}
             onPress={deleteLastCharacter}
           >
-            <FontAwesome name="arrow-left" size={20} color="#fff" />
-            <Text style={CameraScreenStyle.ControlButtonText}>Delete</Text>
+            <FontAwesome name="arrow-left" size={20} color={colors.overlayText} />
+            <Text style={CameraScreenStyle.ControlButtonText}>
+              {strings.camera.delete}
+            </Text>
           </TouchableOpacity>
 
           <TouchableOpacity
             style={[CameraScreenStyle.ControlButton, CameraScreenStyle.ClearButton]}
-            onPress={clearText}
+            onPress={handleClear}
           >
-            <FontAwesome name="trash" size={20} color="#fff" />
-            <Text style={CameraScreenStyle.ControlButtonText}>Clear</Text>
+            <FontAwesome name="trash" size={20} color={colors.overlayText} />
+            <Text style={CameraScreenStyle.ControlButtonText}>
+              {strings.camera.clear}
+            </Text>
           </TouchableOpacity>
         </View>
       </View>
 
       {/* Status Banner */}
-      <View style={[
-        CameraScreenStyle.InfoBanner,
-        backendConnected && CameraScreenStyle.SuccessBanner
-      ]}>
+      <TouchableOpacity
+        style={[
+          CameraScreenStyle.InfoBanner,
+          activeEngine === "demo" && CameraScreenStyle.DemoBanner,
+          (activeEngine === "on-device" || activeEngine === "remote") &&
+            CameraScreenStyle.SuccessBanner
+        ]}
+        onPress={() => router.push("/settings")}
+        disabled={activeEngine === "on-device" || activeEngine === "remote"}
+      >
         <Text style={CameraScreenStyle.InfoText}>
-          {backendConnected
-            ? "✅ Connected to AI Backend - Real Detection Active!"
-            : "📌 Demo Mode - Start backend for real detection"}
+          {activeEngine === "on-device"
+            ? strings.camera.bannerOnDevice
+            : activeEngine === "remote"
+            ? strings.camera.bannerRemote
+            : activeEngine === "demo"
+            ? strings.camera.bannerDemo(demoTitle ?? "")
+            : connection?.status === "connecting"
+            ? strings.camera.bannerConnecting
+            : connection?.status === "unavailable"
+            ? strings.camera.bannerUnavailable(
+                connection.modelMismatch
+                  ? strings.server.modelMismatch(connection.modelMismatch)
+                  : strings.server.modelNotLoaded
+              )
+            : connection?.circuitOpen
+            ? strings.camera.bannerCircuitOpen
+            : connection?.status === "disconnected"
+            ? strings.camera.bannerDisconnected
+            : strings.camera.bannerNoDetection}
         </Text>
-      </View>
+      </TouchableOpacity>
     </View>
   );
 };
@@ -1,42 +1,54 @@
-import { HomeScreenStyle } from "@/assets/styles/HomeScreen.style";
+import { createHomeScreenStyle } from "@/assets/styles/HomeScreen.style";
 import CameraCommunication from "@/components/homeScreen/CameraCommunication";
 import { CameraCommunicationData } from "@/data/data";
-import AsyncStorage from "@react-native-async-storage/async-storage";
+import { useStrings } from "@/hooks/useLanguage";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
+import FontAwesome from "@expo/vector-icons/FontAwesome";
 import { useRouter } from "expo-router";
 import { useState } from "react";
 import { Text, TouchableOpacity, View } from "react-native";
 const Home = () => {
+  const { colors } = useTheme();
+  const HomeScreenStyle = useThemedStyles(createHomeScreenStyle);
+  const strings = useStrings();
   const [activeId, setActiveId] = useState<number | null>(null);
   const router = useRouter();
 
-  const handleDeleteItem = () => {
-    AsyncStorage.clear();
-  };
-
   const handleActive = (id: number) => {
     setActiveId((prevId) => (prevId === id ? null : id));
   };
 
   const handleNavigate = () => {
-    handleDeleteItem();
-    activeId === 1
-      ? router.push("/home/camera")
-      : router.push("/home/keyboard");
+    const option = CameraCommunicationData.find((data) => data.id === activeId);
+    if (option) router.push(option.route);
   };
   return (
     <View style={HomeScreenStyle.MainContainer}>
       <View style={HomeScreenStyle.TextContainer}>
-        <Text style={HomeScreenStyle.WelcomeText}>
-          Hi! How do you want to communicate?
-        </Text>
+        <Text style={HomeScreenStyle.WelcomeText}>{strings.home.greeting}</Text>
+        <View style={HomeScreenStyle.HeaderIcons}>
+          <TouchableOpacity onPress={() => router.push("/home/practice")}>
+            <FontAwesome
+              name="graduation-cap"
+              size={26}
+              color={colors.secondary}
+            />
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => router.push("/history")}>
+            <FontAwesome name="history" size={26} color={colors.secondary} />
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => router.push("/settings")}>
+            <FontAwesome name="cog" size={26} color={colors.secondary} />
+          </TouchableOpacity>
+        </View>
       </View>
       <View style={HomeScreenStyle.ImageMainContainer}>
         {CameraCommunicationData.map((data) => (
           <CameraCommunication
             key={data.id}
             id={data.id}
-            title={data.title}
-            description={data.description}
+            title={strings.home.options[data.option].title}
+            description={strings.home.options[data.option].description}
             imgURL={data.imgURL}
             isActive={activeId === data.id}
             onPressOption={handleActive}
@@ -49,7 +61,9 @@ const Home = () => {
             style={HomeScreenStyle.StartButton}
             onPress={handleNavigate}
           >
-            <Text style={HomeScreenStyle.StartButtonText}>Start Now</Text>
+            <Text style={HomeScreenStyle.StartButtonText}>
+              {strings.home.startNow}
+            </Text>
           </TouchableOpacity>
         ) : (
           ""
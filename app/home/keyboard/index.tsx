@@ -1,9 +1,13 @@
-import { SIGN_IMAGES, normalizeToSignKey } from "@/assets/HAND_SIGNS/signs";
-import { KeyboardScreenStyle } from "@/assets/styles/KeyboardScreen.style";
+import { createKeyboardScreenStyle } from "@/assets/styles/KeyboardScreen.style";
+import SignPlayback from "@/components/keyboardScreen/SignPlayback";
+import SignTile from "@/components/keyboardScreen/SignTile";
+import { useStrings } from "@/hooks/useLanguage";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
+import HistoryService from "@/services/HistoryService";
+import SignTranslationService from "@/services/SignTranslationService";
 import FontAwesome from "@expo/vector-icons/FontAwesome";
-import { Image } from "expo-image";
-import { useRouter } from "expo-router";
-import { useState } from "react";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { useEffect, useMemo, useRef, useState } from "react";
 import {
   ScrollView,
   Text,
@@ -13,60 +17,101 @@ import {
 } from "react-native";
 
 const Keyboard = () => {
+  const { colors } = useTheme();
+  const KeyboardScreenStyle = useThemedStyles(createKeyboardScreenStyle);
+  const strings = useStrings();
   const router = useRouter();
   const [text, setText] = useState("");
   const [translated, setTranslated] = useState<string>("");
+  //show every sign at once, or play them back one at a time
+  const [isPlayback, setIsPlayback] = useState(false);
+  //lexicon words where they exist, fingerspelled letters otherwise
+  const tokens = useMemo(
+    () => SignTranslationService.translate(translated),
+    [translated]
+  );
+  const { transcriptId } = useLocalSearchParams<{ transcriptId?: string }>();
+  //history entry to update instead of creating a new one
+  const savedId = useRef<string | undefined>(transcriptId);
+
+  //reopen a transcript from History
+  useEffect(() => {
+    if (!transcriptId) return;
+    HistoryService.get(transcriptId).then((transcript) => {
+      if (!transcript) return;
+      setText(transcript.text);
+      setTranslated(transcript.text);
+    });
+  }, [transcriptId]);
 
   const handleNavigate = () => {
     router.back();
   };
   const handleTranslate = () => {
     setTranslated(text);
+    if (!text.trim()) return;
+    HistoryService.save({ id: savedId.current, mode: "keyboard", text })
+      .then((transcript) => {
+        savedId.current = transcript.id;
+      })
+      .catch((error) => console.error("Error saving transcript:", error));
   };
   return (
     <View style={KeyboardScreenStyle.MainContainer}>
       <View style={KeyboardScreenStyle.BackButtonContainer}>
         <TouchableOpacity onPress={handleNavigate}>
-          <FontAwesome name="long-arrow-left" size={35} />
+          <FontAwesome name="long-arrow-left" size={35} color={colors.text} />
         </TouchableOpacity>
       </View>
 
+      <View style={KeyboardScreenStyle.viewToggle}>
+        {[
+          { playback: false, title: strings.keyboard.allSigns },
+          { playback: true, title: strings.keyboard.playback },
+        ].map((option) => (
+          <TouchableOpacity
+            key={option.title}
+            style={[
+              KeyboardScreenStyle.viewToggleChip,
+              isPlayback === option.playback &&
+                KeyboardScreenStyle.viewToggleChipActive,
+            ]}
+            onPress={() => setIsPlayback(option.playback)}
+          >
+            <Text
+              style={[
+                KeyboardScreenStyle.viewToggleText,
+                isPlayback === option.playback &&
+                  KeyboardScreenStyle.viewToggleTextActive,
+              ]}
+            >
+              {option.title}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
       <View style={KeyboardScreenStyle.outputContainer}>
-        <ScrollView
-          horizontal
-          showsHorizontalScrollIndicator={true}
-          contentContainerStyle={KeyboardScreenStyle.signsRow}
-        >
-          {translated.split("").map((ch, idx) => {
-            const key = normalizeToSignKey(ch);
-            if (key === " ") {
-              return (
-                <View key={`space-${idx}`} style={KeyboardScreenStyle.space} />
-              );
-            }
-            if (key && SIGN_IMAGES[key]) {
-              return (
-                <Image
-                  key={`img-${idx}-${key}`}
-                  source={SIGN_IMAGES[key]}
-                  style={KeyboardScreenStyle.signImage}
-                />
-              );
-            }
-            // Fallback for unsupported characters
-            return (
-              <View key={`unk-${idx}`} style={KeyboardScreenStyle.unknownWrap}>
-                <Text style={KeyboardScreenStyle.unknownText}>{ch}</Text>
-              </View>
-            );
-          })}
-        </ScrollView>
+        {isPlayback ? (
+          <SignPlayback text={translated} tokens={tokens} />
+        ) : (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={true}
+            contentContainerStyle={KeyboardScreenStyle.signsRow}
+          >
+            {tokens.map((token) => (
+              <SignTile key={`${token.type}-${token.start}`} token={token} />
+            ))}
+          </ScrollView>
+        )}
       </View>
 
       <View style={KeyboardScreenStyle.inputAndButtonContainer}>
         <TextInput
           style={KeyboardScreenStyle.input}
-          placeholder="Translate here…"
+          placeholder={strings.keyboard.placeholder}
+          placeholderTextColor={colors.textMuted}
           value={text}
           onChangeText={setText}
           // onSubmitEditing={Keyboard.dismiss}
@@ -75,7 +120,9 @@ const Keyboard = () => {
           onPress={handleTranslate}
           style={KeyboardScreenStyle.TranslateButton}
         >
-          <Text style={KeyboardScreenStyle.TranslateButtonText}>Translate</Text>
+          <Text style={KeyboardScreenStyle.TranslateButtonText}>
+            {strings.keyboard.translate}
+          </Text>
         </TouchableOpacity>
       </View>
     </View>
@@ -0,0 +1,314 @@
+import { SIGN_IMAGES } from "@/assets/HAND_SIGNS/signs";
+import { createCameraScreenStyle } from "@/assets/styles/CameraScreen.style";
+import { createPracticeScreenStyle } from "@/assets/styles/PracticeScreen.style";
+import { useHandSignDetection } from "@/hooks/useHandSignDetection";
+import { useStrings } from "@/hooks/useLanguage";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
+import PracticeService, {
+  PRACTICE_LETTERS,
+  getRecentAccuracy,
+  type PracticeMode,
+  type PracticeStats,
+} from "@/services/PracticeService";
+import FontAwesome from "@expo/vector-icons/FontAwesome";
+import { CameraView, useCameraPermissions } from "expo-camera";
+import { Image } from "expo-image";
+import { useFocusEffect, useRouter } from "expo-router";
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  AppState,
+  ScrollView,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+// Time the user has to sign the target letter
+const TIME_LIMIT_SECONDS = 10;
+// How long the result is shown before the next letter
+const FEEDBACK_MS = 1500;
+
+const PRACTICE_MODES: PracticeMode[] = ["all", "weak"];
+
+type RoundResult = "correct" | "timeout" | null;
+
+const Practice = () => {
+  const { colors } = useTheme();
+  const CameraScreenStyle = useThemedStyles(createCameraScreenStyle);
+  const PracticeScreenStyle = useThemedStyles(createPracticeScreenStyle);
+  const strings = useStrings();
+  const router = useRouter();
+  const [permission, requestPermission] = useCameraPermissions();
+  const cameraRef = useRef<CameraView>(null);
+  const [mode, setMode] = useState<PracticeMode>("all");
+  const [target, setTarget] = useState<string | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(TIME_LIMIT_SECONDS);
+  const [result, setResult] = useState<RoundResult>(null);
+  //last letter confirmed that was not the target
+  const [lastWrong, setLastWrong] = useState<string | null>(null);
+  const [stats, setStats] = useState<PracticeStats>({});
+  const [weakLetters, setWeakLetters] = useState<string[]>([]);
+  const [isFocused, setIsFocused] = useState(true);
+  const [appState, setAppState] = useState(AppState.currentState);
+  //rounds only run while the user can see the camera
+  const isActive = isFocused && appState === "active";
+
+  const { isReady, pause, resume, clearText } = useHandSignDetection({
+    cameraRef,
+    onLetterConfirmed: (letter) => {
+      if (!target || result) return;
+      if (letter === target) {
+        finishRound(true);
+      } else {
+        setLastWrong(letter);
+      }
+    },
+    onError: () => {
+      if (!isReady) {
+        Alert.alert(strings.common.error, strings.common.modelInitFailed);
+      }
+    },
+  });
+
+  const loadStats = useCallback(async () => {
+    setStats({ ...(await PracticeService.getStats()) });
+    setWeakLetters(await PracticeService.getWeakLetters());
+  }, []);
+
+  const startRound = useCallback(
+    async (previous: string | null) => {
+      const next = await PracticeService.pickNextLetter(mode, previous);
+      clearText();
+      setTarget(next);
+      setResult(null);
+      setLastWrong(null);
+      setSecondsLeft(TIME_LIMIT_SECONDS);
+      resume();
+    },
+    [mode, clearText, resume]
+  );
+
+  const finishRound = useCallback(
+    async (correct: boolean) => {
+      if (!target) return;
+      pause();
+      setResult(correct ? "correct" : "timeout");
+      await PracticeService.recordAttempt(target, correct);
+      loadStats();
+    },
+    [target, pause, loadStats]
+  );
+
+  useEffect(() => {
+    loadStats();
+  }, [loadStats]);
+
+  useFocusEffect(
+    useCallback(() => {
+      setIsFocused(true);
+      return () => setIsFocused(false);
+    }, [])
+  );
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener("change", setAppState);
+    return () => subscription.remove();
+  }, []);
+
+  //start once the recognizer is ready and the camera allowed, and again when the mode changes
+  useEffect(() => {
+    if (isReady && permission?.granted) startRound(null);
+  }, [isReady, permission?.granted, startRound]);
+
+  //hold the round while the screen is hidden or the app is in the background
+  useEffect(() => {
+    if (!isActive) {
+      pause();
+    } else if (target && !result) {
+      resume();
+    }
+  }, [isActive, target, result, pause, resume]);
+
+  //countdown for the current letter, paused with the round
+  useEffect(() => {
+    if (!target || result || !isActive) return;
+
+    if (secondsLeft <= 0) {
+      finishRound(false);
+      return;
+    }
+
+    const timer = setTimeout(() => setSecondsLeft((s) => s - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [target, result, secondsLeft, isActive, finishRound]);
+
+  //show the result, then move on
+  useEffect(() => {
+    if (!result || !isActive) return;
+    const timer = setTimeout(() => startRound(target), FEEDBACK_MS);
+    return () => clearTimeout(timer);
+  }, [result, target, isActive, startRound]);
+
+  const handleNavigate = () => {
+    router.back();
+  };
+
+  const handleResetStats = () => {
+    Alert.alert(strings.practice.resetTitle, strings.practice.resetMessage, [
+      { text: strings.common.cancel, style: "cancel" },
+      {
+        text: strings.practice.reset,
+        style: "destructive",
+        onPress: async () => {
+          await PracticeService.resetStats();
+          loadStats();
+        },
+      },
+    ]);
+  };
+
+  if (!permission) {
+    return <View style={CameraScreenStyle.MainContainer} />;
+  }
+
+  if (!permission.granted) {
+    return (
+      <View style={CameraScreenStyle.MainContainer}>
+        <View style={CameraScreenStyle.PermissionContainer}>
+          <Text style={CameraScreenStyle.PermissionText}>
+            {strings.common.cameraPermission}
+          </Text>
+          <TouchableOpacity
+            style={CameraScreenStyle.PermissionButton}
+            onPress={requestPermission}
+          >
+            <Text style={CameraScreenStyle.PermissionButtonText}>
+              {strings.common.grantPermission}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  }
+
+  if (!isReady || !target) {
+    return (
+      <View style={CameraScreenStyle.MainContainer}>
+        <View style={CameraScreenStyle.LoadingContainer}>
+          <ActivityIndicator size="large" color={colors.secondary} />
+          <Text style={CameraScreenStyle.LoadingText}>
+            {strings.common.loadingModel}
+          </Text>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={CameraScreenStyle.MainContainer}>
+      <View style={CameraScreenStyle.BackButtonContainer}>
+        <TouchableOpacity onPress={handleNavigate}>
+          <FontAwesome name="long-arrow-left" size={35} color={colors.text} />
+        </TouchableOpacity>
+      </View>
+
+      <CameraView
+        ref={cameraRef}
+        style={CameraScreenStyle.Camera}
+        facing="back"
+      />
+
+      <View
+        style={[CameraScreenStyle.OverlayContainer, PracticeScreenStyle.Overlay]}
+      >
+        {/* Target Letter */}
+        <View style={PracticeScreenStyle.PromptRow}>
+          <Image
+            source={SIGN_IMAGES[target.toLowerCase()]}
+            style={PracticeScreenStyle.ReferenceImage}
+          />
+          <View style={PracticeScreenStyle.PromptInfo}>
+            <Text style={PracticeScreenStyle.PromptLabel}>
+              {strings.practice.signTheLetter}
+            </Text>
+            <Text style={PracticeScreenStyle.TargetLetter}>{target}</Text>
+            <Text style={PracticeScreenStyle.TimerText}>
+              {result ? " " : strings.practice.secondsLeft(secondsLeft)}
+            </Text>
+          </View>
+        </View>
+
+        <Text
+          style={[
+            PracticeScreenStyle.FeedbackText,
+            result === "correct" && PracticeScreenStyle.FeedbackCorrect,
+            result === "timeout" && PracticeScreenStyle.FeedbackWrong,
+          ]}
+        >
+          {result === "correct"
+            ? strings.practice.correct
+            : result === "timeout"
+            ? strings.practice.timeUp
+            : lastWrong
+            ? strings.practice.sawLetter(lastWrong)
+            : strings.practice.holdSteady}
+        </Text>
+
+        {/* Practice Mode */}
+        <View style={PracticeScreenStyle.ChipRow}>
+          {PRACTICE_MODES.map((option) => {
+            const title =
+              option === "weak"
+                ? strings.practice.weakLetters
+                : strings.practice.allLetters;
+            return (
+              <TouchableOpacity
+                key={option}
+                style={[
+                  PracticeScreenStyle.Chip,
+                  mode === option && PracticeScreenStyle.ChipActive,
+                ]}
+                onPress={() => setMode(option)}
+              >
+                <Text style={PracticeScreenStyle.ChipText}>
+                  {option === "weak" && weakLetters.length > 0
+                    ? `${title} (${weakLetters.join(" ")})`
+                    : title}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+          <TouchableOpacity
+            style={PracticeScreenStyle.Chip}
+            onPress={handleResetStats}
+          >
+            <Text style={PracticeScreenStyle.ChipText}>
+              {strings.practice.reset}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Per-letter Accuracy */}
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          <View style={PracticeScreenStyle.StatsRow}>
+            {PRACTICE_LETTERS.map((letter) => {
+              const accuracy = getRecentAccuracy(stats[letter]);
+              return (
+                <View key={letter} style={PracticeScreenStyle.StatItem}>
+                  <Text style={PracticeScreenStyle.StatLetter}>{letter}</Text>
+                  <Text style={PracticeScreenStyle.StatAccuracy}>
+                    {accuracy === null ? "–" : `${Math.round(accuracy * 100)}%`}
+                  </Text>
+                </View>
+              );
+            })}
+          </View>
+        </ScrollView>
+      </View>
+    </View>
+  );
+};
+
+export default Practice;
@@ -1,4 +1,4 @@
-import AsyncStorage from "@react-native-async-storage/async-storage";
+import StorageService from "@/services/StorageService";
 import { Redirect } from "expo-router";
 import { useEffect, useState } from "react";
 export default function Index() {
@@ -6,10 +6,10 @@ export default function Index() {
 
   //check in the localstorage if the user is already onboarded
   useEffect(() => {
-    AsyncStorage.getItem("hasOnBoarded").then((value) => {
+    StorageService.getItem("app", "hasOnBoarded").then((value) => {
       setHasOnBoarded(value === "true");
     });
-  });
+  }, []);
 
   if (hasOnboarded === null) return null;
 
@@ -1,15 +1,19 @@
-import { onBoardingPageStyle } from "@/assets/styles/OnBoardingPage.style";
-import AsyncStorage from "@react-native-async-storage/async-storage";
+import { createOnBoardingPageStyle } from "@/assets/styles/OnBoardingPage.style";
+import { useStrings } from "@/hooks/useLanguage";
+import { useThemedStyles } from "@/hooks/useTheme";
+import StorageService from "@/services/StorageService";
 import { Image } from "expo-image";
 import { useRouter } from "expo-router";
 import { Text, TouchableOpacity, View } from "react-native";
 
 const OnBoarding = () => {
+  const onBoardingPageStyle = useThemedStyles(createOnBoardingPageStyle);
+  const strings = useStrings();
   const router = useRouter();
 
   //function to handleNavigation
   const handleNavigate = () => {
-    AsyncStorage.setItem("hasOnBoarded", "true"); //set that the user has already onboarded
+    StorageService.setItem("app", "hasOnBoarded", "true"); //set that the user has already onboarded
     router.replace("/home"); //navigate to home
   };
 
@@ -21,16 +25,18 @@ const OnBoarding = () => {
 
       <View style={onBoardingPageStyle.ImageContainer}>
         <Text style={onBoardingPageStyle.ImageTextPrimary}>
-          Breaking Barriers, One{" "}
-          <Text style={onBoardingPageStyle.ImageSignText}>Sign</Text> at a Time
+          {strings.onboarding.taglineStart}{" "}
+          <Text style={onBoardingPageStyle.ImageSignText}>
+            {strings.onboarding.taglineSign}
+          </Text>{" "}
+          {strings.onboarding.taglineEnd}
         </Text>
         <Image
           source={require("../../assets/images/onBoarding-image.png")}
           style={onBoardingPageStyle.OnBoardingImage}
         />
         <Text style={onBoardingPageStyle.ImageSecondaryText}>
-          Understand and connect through sign language, enabling clearer
-          communication without barriers.
+          {strings.onboarding.description}
         </Text>
       </View>
 
@@ -38,7 +44,9 @@ const OnBoarding = () => {
         style={onBoardingPageStyle.GetStartedButton}
         onPress={handleNavigate}
       >
-        <Text style={onBoardingPageStyle.GetStartedText}>Get Started</Text>
+        <Text style={onBoardingPageStyle.GetStartedText}>
+          {strings.onboarding.getStarted}
+        </Text>
       </TouchableOpacity>
     </View>
   );
@@ -0,0 +1,525 @@
+import { createSettingsScreenStyle } from "@/assets/styles/SettingsScreen.style";
+import { LANGUAGE_NAMES } from "@/constant/strings";
+import { DemoSequenceData } from "@/data/demoSequences";
+import { useLanguage } from "@/hooks/useLanguage";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
+import DemoEngine from "@/services/DemoEngine";
+import type { BenchmarkReport, BenchmarkStage } from "@/services/ModelService";
+import RecognitionService from "@/services/RecognitionService";
+import type { LanguagePreference } from "@/services/LanguageService";
+import SpeechService, {
+  DEFAULT_SPEECH_OPTIONS,
+  type SpeechLanguage,
+  type SpeechOptions,
+} from "@/services/SpeechService";
+import ServerConfigService, {
+  normalizeServerUrl,
+} from "@/services/ServerConfigService";
+import type { ThemePreference } from "@/services/ThemeService";
+import FontAwesome from "@expo/vector-icons/FontAwesome";
+import { useRouter } from "expo-router";
+import { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  Switch,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+type Status = { kind: "success" | "error" | "info"; message: string } | null;
+
+const SPEECH_LANGUAGES: SpeechLanguage[] = ["en", "fil"];
+
+const SPEECH_RATES = [
+  { rate: 0.75, label: "slow" },
+  { rate: 1.0, label: "normal" },
+  { rate: 1.25, label: "fast" },
+] as const;
+
+const THEME_OPTIONS: ThemePreference[] = ["system", "light", "dark", "highContrast"];
+
+const LANGUAGE_OPTIONS: LanguagePreference[] = ["system", "en", "fil"];
+
+const BENCHMARK_STAGES: BenchmarkStage[] = ["preprocess", "inference", "postprocess"];
+
+// Keep the voice list short; devices can ship dozens per language
+const MAX_VOICES = 6;
+
+const Settings = () => {
+  const { colors, preference, setPreference } = useTheme();
+  const SettingsScreenStyle = useThemedStyles(createSettingsScreenStyle);
+  const language = useLanguage();
+  const { strings } = language;
+  const router = useRouter();
+  const [serverUrl, setServerUrl] = useState("");
+  const [status, setStatus] = useState<Status>(null);
+  const [isTesting, setIsTesting] = useState(false);
+  const [demoSequence, setDemoSequence] = useState<string | null>(null);
+  const [speechOptions, setSpeechOptions] = useState<SpeechOptions>(
+    DEFAULT_SPEECH_OPTIONS
+  );
+  const [voices, setVoices] = useState<{ id: string; name: string }[]>([]);
+  const [isBenchmarking, setIsBenchmarking] = useState(false);
+  const [benchmark, setBenchmark] = useState<BenchmarkReport | null>(null);
+  const [benchmarkError, setBenchmarkError] = useState<string | null>(null);
+
+  //load the saved settings
+  useEffect(() => {
+    ServerConfigService.getServerUrl().then(setServerUrl);
+    DemoEngine.getSelectedSequence().then(setDemoSequence);
+    SpeechService.getOptions().then(setSpeechOptions);
+  }, []);
+
+  //list the voices for the selected speech language
+  useEffect(() => {
+    SpeechService.getVoices(speechOptions.language)
+      .then((list) =>
+        setVoices(
+          list
+            .slice(0, MAX_VOICES)
+            .map((voice) => ({ id: voice.identifier, name: voice.name }))
+        )
+      )
+      .catch(() => setVoices([]));
+  }, [speechOptions.language]);
+
+  const handleSpeechOptions = async (options: Partial<SpeechOptions>) => {
+    setSpeechOptions(await SpeechService.setOptions(options));
+  };
+
+  const handleDemoSequence = (id: string | null) => {
+    setDemoSequence(id);
+    DemoEngine.setSelectedSequence(id);
+  };
+
+  const handleNavigate = () => {
+    router.back();
+  };
+
+  const runBenchmark = async () => {
+    setIsBenchmarking(true);
+    setBenchmark(null);
+    setBenchmarkError(null);
+
+    try {
+      setBenchmark(await RecognitionService.benchmarkOnDevice());
+    } catch (error: any) {
+      setBenchmarkError(error.message || String(error));
+    } finally {
+      setIsBenchmarking(false);
+    }
+  };
+
+  //check the /health endpoint of the entered server
+  const runConnectionTest = async () => {
+    setIsTesting(true);
+    setStatus({ kind: "info", message: strings.settings.testing });
+
+    const result = await ServerConfigService.testConnection(serverUrl);
+    setIsTesting(false);
+
+    if (result.modelMismatch) {
+      setStatus({
+        kind: "error",
+        message: strings.server.modelMismatch(result.modelMismatch),
+      });
+    } else if (result.ok && result.modelLoaded) {
+      setStatus({ kind: "success", message: strings.settings.connected });
+    } else if (result.ok) {
+      setStatus({ kind: "error", message: strings.server.modelNotLoaded });
+    } else {
+      setStatus({
+        kind: "error",
+        message: strings.settings.connectionFailed(
+          result.error ? strings.server.connectionFailure(result.error) : ""
+        ),
+      });
+    }
+
+    return result.ok && !result.modelMismatch;
+  };
+
+  const saveServerUrl = async () => {
+    const saved = await ServerConfigService.setServerUrl(serverUrl);
+    setServerUrl(saved);
+    Alert.alert(strings.settings.savedTitle, strings.settings.savedMessage(saved));
+  };
+
+  const handleSave = async () => {
+    if (!normalizeServerUrl(serverUrl)) {
+      setStatus({ kind: "error", message: strings.settings.invalidUrl });
+      return;
+    }
+
+    const reachable = await runConnectionTest();
+    if (reachable) {
+      await saveServerUrl();
+      return;
+    }
+
+    Alert.alert(
+      strings.settings.unreachableTitle,
+      strings.settings.unreachableMessage,
+      [
+        { text: strings.common.cancel, style: "cancel" },
+        { text: strings.settings.saveAnyway, onPress: saveServerUrl },
+      ]
+    );
+  };
+
+  return (
+    <ScrollView
+      style={SettingsScreenStyle.MainContainer}
+      contentContainerStyle={SettingsScreenStyle.ScrollContent}
+    >
+      <View style={SettingsScreenStyle.BackButtonContainer}>
+        <TouchableOpacity onPress={handleNavigate}>
+          <FontAwesome name="long-arrow-left" size={35} color={colors.text} />
+        </TouchableOpacity>
+      </View>
+
+      <Text style={SettingsScreenStyle.Title}>{strings.settings.title}</Text>
+
+      <View>
+        <Text style={SettingsScreenStyle.Label}>
+          {strings.settings.language}
+        </Text>
+        <View style={SettingsScreenStyle.ChipRow}>
+          {LANGUAGE_OPTIONS.map((option) => (
+            <TouchableOpacity
+              key={option}
+              style={[
+                SettingsScreenStyle.Chip,
+                language.preference === option && SettingsScreenStyle.ChipActive,
+              ]}
+              onPress={() => language.setPreference(option)}
+            >
+              <Text
+                style={[
+                  SettingsScreenStyle.ChipText,
+                  language.preference === option &&
+                    SettingsScreenStyle.ChipTextActive,
+                ]}
+              >
+                {option === "system"
+                  ? strings.settings.system
+                  : LANGUAGE_NAMES[option]}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <Text style={SettingsScreenStyle.HelpText}>
+          {strings.settings.languageHelp}
+        </Text>
+      </View>
+
+      <View>
+        <Text style={SettingsScreenStyle.Label}>
+          {strings.settings.appearance}
+        </Text>
+        <View style={SettingsScreenStyle.ChipRow}>
+          {THEME_OPTIONS.map((option) => (
+            <TouchableOpacity
+              key={option}
+              style={[
+                SettingsScreenStyle.Chip,
+                preference === option && SettingsScreenStyle.ChipActive,
+              ]}
+              onPress={() => setPreference(option)}
+            >
+              <Text
+                style={[
+                  SettingsScreenStyle.ChipText,
+                  preference === option && SettingsScreenStyle.ChipTextActive,
+                ]}
+              >
+                {strings.settings[option]}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <Text style={SettingsScreenStyle.HelpText}>
+          {strings.settings.appearanceHelp}
+        </Text>
+      </View>
+
+      <View>
+        <Text style={SettingsScreenStyle.Label}>
+          {strings.settings.serverUrl}
+        </Text>
+        <TextInput
+          style={SettingsScreenStyle.input}
+          placeholder="http://192.168.1.30:5000"
+          placeholderTextColor={colors.textMuted}
+          value={serverUrl}
+          onChangeText={setServerUrl}
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="url"
+        />
+        <Text style={SettingsScreenStyle.HelpText}>
+          {strings.settings.serverHelp}
+        </Text>
+      </View>
+
+      <View style={SettingsScreenStyle.ButtonRow}>
+        <TouchableOpacity
+          style={[SettingsScreenStyle.Button, SettingsScreenStyle.SecondaryButton]}
+          onPress={runConnectionTest}
+          disabled={isTesting}
+        >
+          <Text
+            style={[
+              SettingsScreenStyle.ButtonText,
+              SettingsScreenStyle.SecondaryButtonText,
+            ]}
+          >
+            {strings.settings.testConnection}
+          </Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={SettingsScreenStyle.Button}
+          onPress={handleSave}
+          disabled={isTesting}
+        >
+          <Text style={SettingsScreenStyle.ButtonText}>
+            {strings.settings.save}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      {isTesting && <ActivityIndicator size="small" color={colors.secondary} />}
+
+      {status && (
+        <Text
+          style={[
+            SettingsScreenStyle.StatusText,
+            status.kind === "success" && SettingsScreenStyle.StatusSuccess,
+            status.kind === "error" && SettingsScreenStyle.StatusError,
+          ]}
+        >
+          {status.message}
+        </Text>
+      )}
+
+      <View>
+        <Text style={SettingsScreenStyle.Label}>
+          {strings.settings.demoMode}
+        </Text>
+        <View style={SettingsScreenStyle.ChipRow}>
+          {[{ id: null, title: strings.settings.off }, ...DemoSequenceData].map((sequence) => (
+            <TouchableOpacity
+              key={sequence.id ?? "off"}
+              style={[
+                SettingsScreenStyle.Chip,
+                demoSequence === sequence.id && SettingsScreenStyle.ChipActive,
+              ]}
+              onPress={() => handleDemoSequence(sequence.id)}
+            >
+              <Text
+                style={[
+                  SettingsScreenStyle.ChipText,
+                  demoSequence === sequence.id &&
+                    SettingsScreenStyle.ChipTextActive,
+                ]}
+              >
+                {sequence.title}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <Text style={SettingsScreenStyle.HelpText}>
+          {strings.settings.demoHelp}
+        </Text>
+      </View>
+
+      <Text style={SettingsScreenStyle.SectionTitle}>
+        {strings.settings.onDeviceModel}
+      </Text>
+
+      <View>
+        <TouchableOpacity
+          style={[SettingsScreenStyle.Button, SettingsScreenStyle.SecondaryButton]}
+          onPress={runBenchmark}
+          disabled={isBenchmarking}
+        >
+          <Text
+            style={[
+              SettingsScreenStyle.ButtonText,
+              SettingsScreenStyle.SecondaryButtonText,
+            ]}
+          >
+            {isBenchmarking
+              ? strings.settings.benchmarkRunning
+              : strings.settings.runBenchmark}
+          </Text>
+        </TouchableOpacity>
+        <Text style={SettingsScreenStyle.HelpText}>
+          {strings.settings.benchmarkHelp}
+        </Text>
+      </View>
+
+      {benchmarkError && (
+        <Text style={[SettingsScreenStyle.StatusText, SettingsScreenStyle.StatusError]}>
+          {strings.settings.benchmarkFailed(benchmarkError)}
+        </Text>
+      )}
+
+      {benchmark && (
+        <View style={SettingsScreenStyle.BenchmarkReport}>
+          <Text style={SettingsScreenStyle.BenchmarkLine}>
+            {strings.settings.benchmarkSummary(benchmark.frames, benchmark.backend)}
+          </Text>
+          {BENCHMARK_STAGES.map((stage) => (
+            <Text key={stage} style={SettingsScreenStyle.BenchmarkLine}>
+              {strings.settings.benchmarkTiming(
+                strings.settings.benchmarkStages[stage],
+                benchmark.stages[stage].meanMs.toFixed(1),
+                benchmark.stages[stage].p95Ms.toFixed(1)
+              )}
+            </Text>
+          ))}
+          <Text
+            style={[
+              SettingsScreenStyle.BenchmarkLine,
+              benchmark.leakedTensors > 0 && SettingsScreenStyle.StatusError,
+            ]}
+          >
+            {strings.settings.benchmarkLeaks(benchmark.leakedTensors)}
+          </Text>
+        </View>
+      )}
+
+      <Text style={SettingsScreenStyle.SectionTitle}>
+        {strings.settings.speech}
+      </Text>
+
+      <View style={SettingsScreenStyle.SwitchRow}>
+        <Text style={SettingsScreenStyle.Label}>
+          {strings.settings.speakEachWord}
+        </Text>
+        <Switch
+          value={speechOptions.autoSpeak}
+          onValueChange={(autoSpeak) => handleSpeechOptions({ autoSpeak })}
+        />
+      </View>
+
+      <View>
+        <Text style={SettingsScreenStyle.Label}>
+          {strings.settings.speechLanguage}
+        </Text>
+        <View style={SettingsScreenStyle.ChipRow}>
+          {SPEECH_LANGUAGES.map((speechLanguage) => (
+            <TouchableOpacity
+              key={speechLanguage}
+              style={[
+                SettingsScreenStyle.Chip,
+                speechOptions.language === speechLanguage &&
+                  SettingsScreenStyle.ChipActive,
+              ]}
+              onPress={() =>
+                handleSpeechOptions({ language: speechLanguage, voice: null })
+              }
+            >
+              <Text
+                style={[
+                  SettingsScreenStyle.ChipText,
+                  speechOptions.language === speechLanguage &&
+                    SettingsScreenStyle.ChipTextActive,
+                ]}
+              >
+                {LANGUAGE_NAMES[speechLanguage]}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      <View>
+        <Text style={SettingsScreenStyle.Label}>
+          {strings.settings.rate}
+        </Text>
+        <View style={SettingsScreenStyle.ChipRow}>
+          {SPEECH_RATES.map((option) => (
+            <TouchableOpacity
+              key={option.label}
+              style={[
+                SettingsScreenStyle.Chip,
+                speechOptions.rate === option.rate &&
+                  SettingsScreenStyle.ChipActive,
+              ]}
+              onPress={() => handleSpeechOptions({ rate: option.rate })}
+            >
+              <Text
+                style={[
+                  SettingsScreenStyle.ChipText,
+                  speechOptions.rate === option.rate &&
+                    SettingsScreenStyle.ChipTextActive,
+                ]}
+              >
+                {strings.settings[option.label]}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      <View>
+        <Text style={SettingsScreenStyle.Label}>
+          {strings.settings.voice}
+        </Text>
+        <View style={SettingsScreenStyle.ChipRow}>
+          {[{ id: null, name: strings.settings.defaultVoice }, ...voices].map((voice) => (
+            <TouchableOpacity
+              key={voice.id ?? "default"}
+              style={[
+                SettingsScreenStyle.Chip,
+                speechOptions.voice === voice.id &&
+                  SettingsScreenStyle.ChipActive,
+              ]}
+              onPress={() => handleSpeechOptions({ voice: voice.id })}
+            >
+              <Text
+                style={[
+                  SettingsScreenStyle.ChipText,
+                  speechOptions.voice === voice.id &&
+                    SettingsScreenStyle.ChipTextActive,
+                ]}
+              >
+                {voice.name}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <TouchableOpacity
+          style={[
+            SettingsScreenStyle.Button,
+            SettingsScreenStyle.SecondaryButton,
+            SettingsScreenStyle.TestSpeechButton,
+          ]}
+          onPress={() =>
+            SpeechService.speak(
+              speechOptions.language === "fil" ? "Salamat" : "Thank you"
+            )
+          }
+        >
+          <Text
+            style={[
+              SettingsScreenStyle.ButtonText,
+              SettingsScreenStyle.SecondaryButtonText,
+            ]}
+          >
+            {strings.settings.testVoice}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </ScrollView>
+  );
+};
+
+export default Settings;
@@ -1,3 +1,5 @@
+import type { AppLanguage } from '@/constant/strings';
+
 export const SIGN_IMAGES: Record<string, any> = {
     a: require('./a.jpg'),
     b: require('./b.jpg'),
@@ -27,9 +29,181 @@ export const SIGN_IMAGES: Record<string, any> = {
     z: require('./z.jpg'),
 };
 
+// How each sign is formed, in each app language, shown in the Dictionary.
+// Signs without a photo yet (numbers, Ñ, NG) are shown as this description
+// on a card. Ñ and NG are letters of the Filipino alphabet with their own signs.
+export const SIGN_DESCRIPTIONS: Record<string, Record<AppLanguage, string>> = {
+    a: {
+        en: 'Fist with the thumb resting against the side of the index finger',
+        fil: 'Nakakuyom ang kamay, nakadikit ang hinlalaki sa gilid ng hintuturo',
+    },
+    b: {
+        en: 'Flat hand, fingers together and up, thumb folded across the palm',
+        fil: 'Nakabukas ang palad, magkakadikit at nakataas ang mga daliri, nakatiklop ang hinlalaki sa palad',
+    },
+    c: {
+        en: 'Fingers and thumb curved into a C',
+        fil: 'Nakakurba ang mga daliri at hinlalaki na parang C',
+    },
+    d: {
+        en: 'Index finger up, other fingers curve to touch the thumb',
+        fil: 'Nakataas ang hintuturo, ang ibang daliri ay kumukurba at dumidikit sa hinlalaki',
+    },
+    e: {
+        en: 'Fingertips curled down onto the thumb tucked under them',
+        fil: 'Nakabaluktot ang dulo ng mga daliri sa ibabaw ng hinlalaking nakasuksok sa ilalim',
+    },
+    f: {
+        en: 'Thumb and index finger touch in a circle, other fingers up and spread',
+        fil: 'Magkadikit ang hinlalaki at hintuturo na parang bilog, nakataas at magkahiwalay ang ibang daliri',
+    },
+    g: {
+        en: 'Index finger and thumb point sideways, parallel',
+        fil: 'Nakaturo patagilid ang hintuturo at hinlalaki, magkaagapay',
+    },
+    h: {
+        en: 'Index and middle finger point sideways together',
+        fil: 'Magkasamang nakaturo patagilid ang hintuturo at hinlalato',
+    },
+    i: {
+        en: 'Pinky up, other fingers in a fist',
+        fil: 'Nakataas ang hinliliit, nakakuyom ang ibang daliri',
+    },
+    j: {
+        en: 'Pinky up, traces a J in the air',
+        fil: 'Nakataas ang hinliliit at gumuguhit ng J sa hangin',
+    },
+    k: {
+        en: 'Index and middle finger up in a V, thumb touching the middle finger',
+        fil: 'Nakataas ang hintuturo at hinlalato na parang V, nakadikit ang hinlalaki sa hinlalato',
+    },
+    l: {
+        en: 'Index finger up and thumb out, forming an L',
+        fil: 'Nakataas ang hintuturo at nakaunat ang hinlalaki na parang L',
+    },
+    m: {
+        en: 'Thumb tucked under the index, middle and ring fingers',
+        fil: 'Nakasuksok ang hinlalaki sa ilalim ng hintuturo, hinlalato at palasingsingan',
+    },
+    n: {
+        en: 'Thumb tucked under the index and middle fingers',
+        fil: 'Nakasuksok ang hinlalaki sa ilalim ng hintuturo at hinlalato',
+    },
+    o: {
+        en: 'All fingertips curve to touch the thumb, forming an O',
+        fil: 'Kumukurba ang dulo ng lahat ng daliri at dumidikit sa hinlalaki na parang O',
+    },
+    p: {
+        en: 'K handshape pointed downward',
+        fil: 'Hugis-K na nakaturo pababa',
+    },
+    q: {
+        en: 'G handshape pointed downward',
+        fil: 'Hugis-G na nakaturo pababa',
+    },
+    r: {
+        en: 'Index and middle finger crossed',
+        fil: 'Magkakrus ang hintuturo at hinlalato',
+    },
+    s: {
+        en: 'Fist with the thumb across the front of the fingers',
+        fil: 'Nakakuyom ang kamay, nakatawid ang hinlalaki sa harap ng mga daliri',
+    },
+    t: {
+        en: 'Thumb tucked between the index and middle finger',
+        fil: 'Nakasuksok ang hinlalaki sa pagitan ng hintuturo at hinlalato',
+    },
+    u: {
+        en: 'Index and middle finger up together',
+        fil: 'Magkasamang nakataas ang hintuturo at hinlalato',
+    },
+    v: {
+        en: 'Index and middle finger up and apart',
+        fil: 'Nakataas at magkahiwalay ang hintuturo at hinlalato',
+    },
+    w: {
+        en: 'Index, middle and ring finger up and spread',
+        fil: 'Nakataas at magkahiwalay ang hintuturo, hinlalato at palasingsingan',
+    },
+    x: {
+        en: 'Index finger bent like a hook',
+        fil: 'Nakabaluktot ang hintuturo na parang kawit',
+    },
+    y: {
+        en: 'Thumb and pinky out, other fingers folded',
+        fil: 'Nakaunat ang hinlalaki at hinliliit, nakatiklop ang ibang daliri',
+    },
+    z: {
+        en: 'Index finger traces a Z in the air',
+        fil: 'Gumuguhit ng Z sa hangin ang hintuturo',
+    },
+    '0': {
+        en: 'Fingers and thumb curve to touch, forming an O',
+        fil: 'Kumukurba at nagdidikit ang mga daliri at hinlalaki na parang O',
+    },
+    '1': {
+        en: 'Index finger up, palm facing you',
+        fil: 'Nakataas ang hintuturo, nakaharap sa iyo ang palad',
+    },
+    '2': {
+        en: 'Index and middle finger up, palm facing you',
+        fil: 'Nakataas ang hintuturo at hinlalato, nakaharap sa iyo ang palad',
+    },
+    '3': {
+        en: 'Thumb, index and middle finger up',
+        fil: 'Nakataas ang hinlalaki, hintuturo at hinlalato',
+    },
+    '4': {
+        en: 'Four fingers up and spread, thumb folded in',
+        fil: 'Nakataas at magkahiwalay ang apat na daliri, nakatiklop ang hinlalaki',
+    },
+    '5': {
+        en: 'Open hand, all fingers spread',
+        fil: 'Nakabukas ang kamay, magkakahiwalay ang lahat ng daliri',
+    },
+    '6': {
+        en: 'Thumb touches the pinky, other fingers up',
+        fil: 'Nakadikit ang hinlalaki sa hinliliit, nakataas ang ibang daliri',
+    },
+    '7': {
+        en: 'Thumb touches the ring finger, other fingers up',
+        fil: 'Nakadikit ang hinlalaki sa palasingsingan, nakataas ang ibang daliri',
+    },
+    '8': {
+        en: 'Thumb touches the middle finger, other fingers up',
+        fil: 'Nakadikit ang hinlalaki sa hinlalato, nakataas ang ibang daliri',
+    },
+    '9': {
+        en: 'Thumb touches the index finger, other fingers up',
+        fil: 'Nakadikit ang hinlalaki sa hintuturo, nakataas ang ibang daliri',
+    },
+    ñ: {
+        en: 'N handshape, wiggled side to side like the tilde',
+        fil: 'Hugis-N na iginagalaw pakaliwa’t pakanan na parang tilde',
+    },
+    ng: {
+        en: 'N handshape that moves into G',
+        fil: 'Hugis-N na lumilipat sa G',
+    },
+};
+
+// Multi-character letters, signed as one sign only where they start a word
+// ("ng", "ngayon"). Inside a word the letters are spelled separately, so
+// English words typed on the same screen ("sing", "English") stay readable.
+export const DIGRAPH_SIGN_KEYS = ['ng'];
+
+export function hasSign(key: string): boolean {
+    return Boolean(SIGN_IMAGES[key] || SIGN_DESCRIPTIONS[key]);
+}
+
 export function normalizeToSignKey(ch: string): string | null {
     const key = ch.toLowerCase();
-    if (SIGN_IMAGES[key]) return key;
+    if (hasSign(key)) return key;
     if (key === ' ') return ' ';
+
+    // Accented vowels (á, è, ô …) are fingerspelled as their base letter
+    const base = key.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+    if (base.length === 1 && hasSign(base)) return base;
+
     return null; // unsupported character
 }
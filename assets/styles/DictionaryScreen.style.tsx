@@ -0,0 +1,166 @@
+import type { ThemeColors } from "@/constant/colors";
+import { StyleSheet } from "react-native";
+import { fonts } from "../fonts/fonts";
+
+export const createDictionaryScreenStyle = (theme: ThemeColors) =>
+  StyleSheet.create({
+    MainContainer: {
+      flex: 1,
+      backgroundColor: theme.primary,
+      paddingHorizontal: "5%",
+      paddingVertical: "5%",
+      gap: 16,
+    },
+
+    BackButtonContainer: {
+      backgroundColor: theme.accent,
+      paddingHorizontal: 10,
+      width: "15%",
+      justifyContent: "center",
+      alignItems: "center",
+    },
+
+    Title: {
+      fontSize: 24,
+      fontFamily: fonts.bold,
+      color: theme.secondary,
+    },
+
+    SearchInput: {
+      padding: 10,
+      borderWidth: 0.5,
+      borderRadius: 4,
+      color: theme.text,
+      borderColor: theme.border,
+    },
+
+    ChipRow: {
+      flexDirection: "row",
+      flexWrap: "wrap",
+      gap: 10,
+    },
+
+    Chip: {
+      paddingVertical: 8,
+      paddingHorizontal: 16,
+      borderRadius: 20,
+      borderWidth: 1,
+      borderColor: theme.secondary,
+    },
+
+    ChipActive: {
+      backgroundColor: theme.secondary,
+    },
+
+    ChipText: {
+      fontFamily: fonts.semibold,
+      color: theme.secondary,
+    },
+
+    ChipTextActive: {
+      color: theme.primary,
+    },
+
+    GridContent: {
+      gap: 12,
+      paddingBottom: 20,
+    },
+
+    GridRow: {
+      gap: 12,
+    },
+
+    Tile: {
+      flex: 1 / 3,
+      aspectRatio: 0.8,
+      padding: 6,
+      gap: 6,
+      borderRadius: 15,
+      backgroundColor: theme.accent,
+      alignItems: "center",
+      justifyContent: "center",
+    },
+
+    TileImage: {
+      width: "100%",
+      flex: 1,
+      borderRadius: 10,
+    },
+
+    TileTitle: {
+      fontFamily: fonts.bold,
+      fontSize: 16,
+      color: theme.secondary,
+      textAlign: "center",
+    },
+
+    TilePlaceholder: {
+      flex: 1,
+      justifyContent: "center",
+    },
+
+    EmptyText: {
+      fontSize: 14,
+      fontFamily: fonts.regular,
+      color: theme.textMuted,
+      textAlign: "center",
+      marginTop: 40,
+    },
+
+    DetailContainer: {
+      flex: 1,
+      backgroundColor: theme.primary,
+    },
+
+    DetailContent: {
+      paddingHorizontal: "5%",
+      paddingVertical: "5%",
+      gap: 16,
+    },
+
+    DetailImage: {
+      width: "100%",
+      aspectRatio: 1,
+      borderRadius: 15,
+    },
+
+    DetailPlaceholder: {
+      width: "100%",
+      aspectRatio: 1,
+      borderRadius: 15,
+      backgroundColor: theme.accent,
+      alignItems: "center",
+      justifyContent: "center",
+    },
+
+    DetailPlaceholderText: {
+      fontFamily: fonts.bold,
+      fontSize: 72,
+      color: theme.secondary,
+    },
+
+    DetailPlaceholderNote: {
+      fontFamily: fonts.semibold,
+      fontSize: 14,
+      color: theme.textMuted,
+    },
+
+    DetailCategory: {
+      fontSize: 14,
+      fontFamily: fonts.semibold,
+      color: theme.textMuted,
+    },
+
+    Label: {
+      fontSize: 16,
+      fontFamily: fonts.semibold,
+      marginBottom: 4,
+      color: theme.text,
+    },
+
+    BodyText: {
+      fontSize: 16,
+      fontFamily: fonts.regular,
+      color: theme.text,
+    },
+  });
@@ -0,0 +1,86 @@
+import type { ThemeColors } from "@/constant/colors";
+import { StyleSheet } from "react-native";
+import { fonts } from "../fonts/fonts";
+
+export const createHistoryScreenStyle = (theme: ThemeColors) =>
+  StyleSheet.create({
+    MainContainer: {
+      flex: 1,
+      backgroundColor: theme.primary,
+      paddingHorizontal: "5%",
+      paddingVertical: "5%",
+      gap: 20,
+    },
+
+    BackButtonContainer: {
+      backgroundColor: theme.accent,
+      paddingHorizontal: 10,
+      width: "15%",
+      justifyContent: "center",
+      alignItems: "center",
+    },
+
+    HeaderRow: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+    },
+
+    Title: {
+      fontSize: 24,
+      fontFamily: fonts.bold,
+      color: theme.secondary,
+    },
+
+    ClearAllText: {
+      fontFamily: fonts.semibold,
+      color: theme.danger,
+    },
+
+    SearchInput: {
+      padding: 10,
+      borderWidth: 0.5,
+      borderRadius: 4,
+      color: theme.text,
+      borderColor: theme.border,
+    },
+
+    ListContent: {
+      gap: 10,
+      paddingBottom: 20,
+    },
+
+    Item: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 12,
+      padding: 12,
+      borderRadius: 15,
+      backgroundColor: theme.accent,
+    },
+
+    ItemBody: {
+      flex: 1,
+      gap: 4,
+    },
+
+    ItemDate: {
+      fontSize: 12,
+      fontFamily: fonts.medium,
+      color: theme.textMuted,
+    },
+
+    ItemText: {
+      fontSize: 16,
+      fontFamily: fonts.semibold,
+      color: theme.text,
+    },
+
+    EmptyText: {
+      fontSize: 14,
+      fontFamily: fonts.regular,
+      color: theme.textMuted,
+      textAlign: "center",
+      marginTop: 40,
+    },
+  });
@@ -1,87 +1,201 @@
-import { COLOR } from "@/constant/colors";
+import type { ThemeColors } from "@/constant/colors";
 import { StyleSheet } from "react-native";
 import { fonts } from "../fonts/fonts";
 
-export const KeyboardScreenStyle = StyleSheet.create({
-  MainContainer: {
-    flex: 1,
-    backgroundColor: COLOR.primary,
-    paddingHorizontal: "5%",
-    paddingVertical: "5%",
-  },
+export const createKeyboardScreenStyle = (theme: ThemeColors) =>
+  StyleSheet.create({
+    MainContainer: {
+      flex: 1,
+      backgroundColor: theme.primary,
+      paddingHorizontal: "5%",
+      paddingVertical: "5%",
+    },
 
-  BackButtonContainer: {
-    backgroundColor: COLOR.accent,
-    paddingHorizontal: 10,
-    width: "15%",
-    justifyContent: "center",
-    alignItems: "center",
-  },
+    BackButtonContainer: {
+      backgroundColor: theme.accent,
+      paddingHorizontal: 10,
+      width: "15%",
+      justifyContent: "center",
+      alignItems: "center",
+    },
 
-  input: {
-    padding: 10,
-    borderWidth: 0.5,
-    borderRadius: 4,
-  },
-  outputContainer: {
-    paddingVertical: 10,
-    marginTop: 16,
-    width: "100%",
-    height: "50%",
-  },
-  outputTitle: {
-    fontSize: 16,
-    fontWeight: "600",
-    marginBottom: 8,
-  },
-  signsRow: {
-    alignItems: "center",
-  },
-  signImage: {
-    width: 100,
-    height: 100,
-    marginRight: 8,
-    borderRadius: 6,
-  },
-  space: {
-    width: 20,
-    height: 1,
-    marginRight: 8,
-  },
-  unknownWrap: {
-    width: 56,
-    height: 56,
-    marginRight: 8,
-    alignItems: "center",
-    justifyContent: "center",
-    borderWidth: 0.5,
-    borderRadius: 6,
-    borderColor: "#ccc",
-  },
-  unknownText: {
-    fontSize: 16,
-  },
-  status: {
-    padding: 16,
-    textAlign: "center",
-  },
+    input: {
+      padding: 10,
+      borderWidth: 0.5,
+      borderRadius: 4,
+      color: theme.text,
+      borderColor: theme.border,
+    },
+    outputContainer: {
+      paddingVertical: 10,
+      marginTop: 16,
+      width: "100%",
+      height: "50%",
+    },
+    outputTitle: {
+      fontSize: 16,
+      fontWeight: "600",
+      marginBottom: 8,
+      color: theme.text,
+    },
+    signsRow: {
+      alignItems: "center",
+    },
+    signImage: {
+      width: 100,
+      height: 100,
+      marginRight: 8,
+      borderRadius: 6,
+    },
+    space: {
+      width: 20,
+      height: 1,
+      marginRight: 8,
+    },
+    wordSign: {
+      width: 140,
+      minHeight: 100,
+      marginRight: 8,
+      padding: 8,
+      gap: 6,
+      alignItems: "center",
+      justifyContent: "center",
+      borderRadius: 6,
+      backgroundColor: theme.accent,
+    },
+    wordSignLarge: {
+      width: 240,
+      minHeight: 200,
+      marginRight: 0,
+      borderRadius: 10,
+    },
+    wordSignGloss: {
+      fontFamily: fonts.bold,
+      fontSize: 16,
+      color: theme.secondary,
+    },
+    wordSignNote: {
+      fontFamily: fonts.semibold,
+      fontSize: 10,
+      color: theme.textMuted,
+    },
+    wordSignDescription: {
+      fontFamily: fonts.regular,
+      fontSize: 12,
+      textAlign: "center",
+      color: theme.textMuted,
+    },
+    pause: {
+      width: 40,
+      height: 1,
+      marginRight: 8,
+    },
+    unknownWrap: {
+      width: 56,
+      height: 56,
+      marginRight: 8,
+      alignItems: "center",
+      justifyContent: "center",
+      borderWidth: 0.5,
+      borderRadius: 6,
+      borderColor: theme.border,
+    },
+    unknownText: {
+      fontSize: 16,
+      color: theme.text,
+    },
+    status: {
+      padding: 16,
+      textAlign: "center",
+      color: theme.text,
+    },
 
-  inputAndButtonContainer: {
-    gap: 20,
-  },
+    viewToggle: {
+      flexDirection: "row",
+      gap: 10,
+      marginTop: 16,
+    },
+    viewToggleChip: {
+      paddingVertical: 8,
+      paddingHorizontal: 16,
+      borderRadius: 20,
+      borderWidth: 1,
+      borderColor: theme.secondary,
+    },
+    viewToggleChipActive: {
+      backgroundColor: theme.secondary,
+    },
+    viewToggleText: {
+      fontFamily: fonts.semibold,
+      color: theme.secondary,
+    },
+    viewToggleTextActive: {
+      color: theme.primary,
+    },
 
-  TranslateButton: {
-    width: "100%",
-    paddingVertical: "3%",
-    paddingHorizontal: "20%",
-    backgroundColor: COLOR.secondary,
-    borderRadius: 15,
-    alignItems: "center",
-  },
+    playbackContainer: {
+      flex: 1,
+      alignItems: "center",
+      justifyContent: "space-between",
+    },
+    playbackSign: {
+      width: 200,
+      height: 200,
+      alignItems: "center",
+      justifyContent: "center",
+    },
+    playbackImage: {
+      width: 200,
+      height: 200,
+      borderRadius: 10,
+    },
+    playbackPauseText: {
+      fontSize: 48,
+      color: theme.border,
+    },
+    playbackText: {
+      fontSize: 18,
+      fontFamily: fonts.medium,
+      textAlign: "center",
+      color: theme.text,
+    },
+    playbackHighlight: {
+      fontFamily: fonts.bold,
+      color: theme.primary,
+      backgroundColor: theme.secondary,
+    },
+    playbackControls: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 24,
+    },
+    speedButton: {
+      paddingVertical: 6,
+      paddingHorizontal: 12,
+      borderRadius: 15,
+      backgroundColor: theme.accent,
+    },
+    speedButtonText: {
+      fontFamily: fonts.bold,
+      color: theme.secondary,
+    },
 
-  TranslateButtonText: {
-    fontFamily: fonts.bold,
-    fontSize: 20,
-    color: COLOR.primary,
-  },
-});
+    inputAndButtonContainer: {
+      gap: 20,
+    },
+
+    TranslateButton: {
+      width: "100%",
+      paddingVertical: "3%",
+      paddingHorizontal: "20%",
+      backgroundColor: theme.secondary,
+      borderRadius: 15,
+      alignItems: "center",
+    },
+
+    TranslateButtonText: {
+      fontFamily: fonts.bold,
+      fontSize: 20,
+      color: theme.primary,
+    },
+  });
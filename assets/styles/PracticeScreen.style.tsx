@@ -0,0 +1,104 @@
+import type { ThemeColors } from "@/constant/colors";
+import { StyleSheet } from "react-native";
+
+export const createPracticeScreenStyle = (theme: ThemeColors) =>
+  StyleSheet.create({
+    Overlay: {
+      gap: 12,
+    },
+
+    PromptRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 16,
+    },
+
+    ReferenceImage: {
+      width: 100,
+      height: 100,
+      borderRadius: 10,
+    },
+
+    PromptInfo: {
+      flex: 1,
+      gap: 4,
+    },
+
+    PromptLabel: {
+      fontSize: 14,
+      color: theme.overlayTextMuted,
+    },
+
+    TargetLetter: {
+      fontSize: 48,
+      fontWeight: "bold",
+      color: theme.overlayText,
+    },
+
+    TimerText: {
+      fontSize: 14,
+      fontWeight: "bold",
+      color: theme.warning,
+    },
+
+    FeedbackText: {
+      fontSize: 16,
+      fontWeight: "bold",
+      color: theme.overlayText,
+    },
+
+    FeedbackCorrect: {
+      color: theme.success,
+    },
+
+    FeedbackWrong: {
+      color: theme.danger,
+    },
+
+    ChipRow: {
+      flexDirection: "row",
+      flexWrap: "wrap",
+      gap: 8,
+    },
+
+    Chip: {
+      backgroundColor: theme.overlaySurface,
+      borderRadius: 16,
+      paddingVertical: 6,
+      paddingHorizontal: 14,
+    },
+
+    ChipActive: {
+      backgroundColor: theme.secondary,
+    },
+
+    ChipText: {
+      fontSize: 14,
+      fontWeight: "bold",
+      color: theme.overlayText,
+    },
+
+    StatsRow: {
+      flexDirection: "row",
+      gap: 8,
+    },
+
+    StatItem: {
+      alignItems: "center",
+      minWidth: 36,
+      paddingVertical: 4,
+      borderRadius: 8,
+      backgroundColor: theme.overlaySurfaceFaint,
+    },
+
+    StatLetter: {
+      fontSize: 14,
+      fontWeight: "bold",
+      color: theme.overlayText,
+    },
+
+    StatAccuracy: {
+      fontSize: 11,
+      color: theme.overlayTextMuted,
+    },
+  });
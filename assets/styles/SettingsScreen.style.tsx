@@ -0,0 +1,152 @@
+import type { ThemeColors } from "@/constant/colors";
+import { StyleSheet } from "react-native";
+import { fonts } from "../fonts/fonts";
+
+export const createSettingsScreenStyle = (theme: ThemeColors) =>
+  StyleSheet.create({
+    MainContainer: {
+      flex: 1,
+      backgroundColor: theme.primary,
+    },
+
+    ScrollContent: {
+      paddingHorizontal: "5%",
+      paddingVertical: "5%",
+      gap: 20,
+    },
+
+    SectionTitle: {
+      fontSize: 18,
+      fontFamily: fonts.bold,
+      color: theme.secondary,
+    },
+
+    SwitchRow: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+    },
+
+    BackButtonContainer: {
+      backgroundColor: theme.accent,
+      paddingHorizontal: 10,
+      width: "15%",
+      justifyContent: "center",
+      alignItems: "center",
+    },
+
+    Title: {
+      fontSize: 24,
+      fontFamily: fonts.bold,
+      color: theme.secondary,
+    },
+
+    Label: {
+      fontSize: 16,
+      fontFamily: fonts.semibold,
+      marginBottom: 8,
+      color: theme.text,
+    },
+
+    HelpText: {
+      fontSize: 13,
+      fontFamily: fonts.regular,
+      color: theme.textMuted,
+      marginTop: 8,
+    },
+
+    input: {
+      padding: 10,
+      borderWidth: 0.5,
+      borderRadius: 4,
+      color: theme.text,
+      borderColor: theme.border,
+    },
+
+    ButtonRow: {
+      flexDirection: "row",
+      gap: 10,
+    },
+
+    Button: {
+      flex: 1,
+      paddingVertical: 12,
+      backgroundColor: theme.secondary,
+      borderRadius: 15,
+      alignItems: "center",
+    },
+
+    SecondaryButton: {
+      backgroundColor: theme.accent,
+    },
+
+    TestSpeechButton: {
+      flex: 0,
+      marginTop: 12,
+    },
+
+    ButtonText: {
+      fontFamily: fonts.bold,
+      fontSize: 16,
+      color: theme.primary,
+    },
+
+    SecondaryButtonText: {
+      color: theme.secondary,
+    },
+
+    StatusText: {
+      fontSize: 14,
+      fontFamily: fonts.medium,
+      textAlign: "center",
+      color: theme.text,
+    },
+
+    ChipRow: {
+      flexDirection: "row",
+      flexWrap: "wrap",
+      gap: 10,
+    },
+
+    Chip: {
+      paddingVertical: 8,
+      paddingHorizontal: 16,
+      borderRadius: 20,
+      borderWidth: 1,
+      borderColor: theme.secondary,
+    },
+
+    ChipActive: {
+      backgroundColor: theme.secondary,
+    },
+
+    ChipText: {
+      fontFamily: fonts.semibold,
+      color: theme.secondary,
+    },
+
+    ChipTextActive: {
+      color: theme.primary,
+    },
+
+    BenchmarkReport: {
+      padding: 12,
+      gap: 4,
+      borderRadius: 10,
+      backgroundColor: theme.accent,
+    },
+
+    BenchmarkLine: {
+      fontSize: 14,
+      fontFamily: fonts.medium,
+      color: theme.text,
+    },
+
+    StatusSuccess: {
+      color: theme.success,
+    },
+
+    StatusError: {
+      color: theme.danger,
+    },
+  });
@@ -9,24 +9,55 @@ from flask_cors import CORS
 import numpy as np
 import cv2
 import base64
+import json
+import os
 import tensorflow as tf
 from PIL import Image
 import io
 
+# WebSocket streaming is optional: without flask-sock the app uses HTTP
+try:
+    from flask_sock import Sock
+except ImportError:
+    Sock = None
+
 app = Flask(__name__)
 CORS(app)  # Enable CORS for mobile app to connect
+sock = Sock(app) if Sock else None
+
+# Model files live in the app; resolved from this file so the server can be
+# started from any directory
+MODEL_DIR = os.path.join(os.path.dirname(os.path.abspath(__file__)), '..', 'app', 'model')
 
 # Load the TFLite model
-MODEL_PATH = '../app/model/model.tflite'
+MODEL_PATH = os.path.join(MODEL_DIR, 'model.tflite')
+
+# Labels, input shape and normalization, shared with the app
+MANIFEST_PATH = os.path.join(MODEL_DIR, 'manifest.json')
+try:
+    with open(MANIFEST_PATH) as f:
+        MANIFEST = json.load(f)
+
+    LETTER_LABELS = MANIFEST['labels']
+    INPUT_HEIGHT, INPUT_WIDTH, INPUT_CHANNELS = MANIFEST['inputShape']
+    NORM_MEAN = MANIFEST['normalization']['mean']
+    NORM_STD = MANIFEST['normalization']['std']
+except Exception as e:
+    # Without a manifest the model cannot be used; the server still starts
+    # so /health can report it
+    print(f"✗ Error loading manifest: {e}")
+    print(f"  Make sure {MANIFEST_PATH} exists and describes the model")
+    MANIFEST = None
+    LETTER_LABELS = []
 
-# Letter labels (matching your Python implementation)
-LETTER_LABELS = [
-    'A', 'B', 'C', 'D', 'E', 'F', 'G', 'H', 'I', 'K', 'L', 'M',
-    'N', 'O', 'P', 'Q', 'R', 'S', 'T', 'U', 'V', 'W', 'X', 'Y'
-]
+# Ranked letters returned with each prediction, unless the request sets top_k
+DEFAULT_TOP_K = 3
 
 # Initialize TFLite interpreter
 try:
+    if MANIFEST is None:
+        raise ValueError('manifest.json is missing or invalid')
+
     interpreter = tf.lite.Interpreter(model_path=MODEL_PATH)
     interpreter.allocate_tensors()
     input_details = interpreter.get_input_details()
@@ -34,49 +65,147 @@ try:
     print("✓ TFLite model loaded successfully")
     print(f"  Input shape: {input_details[0]['shape']}")
     print(f"  Output shape: {output_details[0]['shape']}")
+    print(f"  Manifest version: {MANIFEST['version']}")
+
+    # A model retrained with a different class set needs a new manifest
+    num_classes = int(output_details[0]['shape'][-1])
+    if num_classes != len(LETTER_LABELS):
+        raise ValueError(
+            f"model has {num_classes} outputs but manifest.json lists "
+            f"{len(LETTER_LABELS)} labels"
+        )
+    expected_input = [1, INPUT_HEIGHT, INPUT_WIDTH, INPUT_CHANNELS]
+    if list(input_details[0]['shape']) != expected_input:
+        raise ValueError(
+            f"model input shape {list(input_details[0]['shape'])} does not match "
+            f"manifest.json {expected_input}"
+        )
 except Exception as e:
     print(f"✗ Error loading model: {e}")
-    print("  Make sure model.tflite exists at ../app/model/model.tflite")
+    print(f"  Make sure model.tflite exists at {MODEL_PATH}")
+    print("  and manifest.json next to it describes it")
     interpreter = None
 
 
 def preprocess_image(image_data):
     """
     Preprocess image to match model requirements
-    Converts to grayscale, resizes to 28x28, normalizes
+    Converts to grayscale if the model takes one channel, resizes and
+    normalizes as described by manifest.json
     """
     # Convert to grayscale
-    if len(image_data.shape) == 3:
-        gray = cv2.cvtColor(image_data, cv2.COLOR_RGB2GRAY)
-    else:
-        gray = image_data
+    if INPUT_CHANNELS == 1 and len(image_data.shape) == 3:
+        image_data = cv2.cvtColor(image_data, cv2.COLOR_RGB2GRAY)
 
-    # Resize to 28x28
-    resized = cv2.resize(gray, (28, 28))
+    # Resize to the model input size
+    resized = cv2.resize(image_data, (INPUT_WIDTH, INPUT_HEIGHT))
 
-    # Normalize to 0-1 range
-    normalized = resized.astype(np.float32) / 255.0
+    # Normalize
+    normalized = (resized.astype(np.float32) - NORM_MEAN) / NORM_STD
 
-    # Reshape to model input format [1, 28, 28, 1]
-    input_data = normalized.reshape(1, 28, 28, 1)
+    # Reshape to model input format [1, height, width, channels]
+    input_data = normalized.reshape(1, INPUT_HEIGHT, INPUT_WIDTH, INPUT_CHANNELS)
 
     return input_data
 
 
+def decode_raw_rgba(image_bytes, width, height):
+    """
+    Rebuild an RGB image from raw RGBA bytes sent by the app's frame capture
+    """
+    if not width or not height:
+        raise ValueError('width and height are required for raw RGBA frames')
+
+    width, height = int(width), int(height)
+    expected = width * height * 4
+    if len(image_bytes) != expected:
+        raise ValueError(f'expected {expected} bytes for {width}x{height} RGBA, got {len(image_bytes)}')
+
+    rgba = np.frombuffer(image_bytes, np.uint8).reshape(height, width, 4)
+    return cv2.cvtColor(rgba, cv2.COLOR_RGBA2RGB)
+
+
+def decode_frame(image_b64, width=None, height=None, image_format=None):
+    """
+    Decode a base64 frame to RGB. `image_format` is 'jpeg' or 'png' for an
+    encoded image and 'rgba' for raw pixels; without it (older apps) an
+    encoded image is tried first, then raw RGBA.
+    """
+    # Remove data URL prefix if present
+    if ',' in image_b64:
+        image_b64 = image_b64.split(',')[1]
+
+    image_bytes = base64.b64decode(image_b64)
+
+    if image_format == 'rgba':
+        return decode_raw_rgba(image_bytes, width, height)
+
+    if image_format not in (None, 'jpeg', 'png'):
+        raise ValueError(f'unsupported image format: {image_format}')
+
+    nparr = np.frombuffer(image_bytes, np.uint8)
+    image = cv2.imdecode(nparr, cv2.IMREAD_COLOR)
+    if image is not None:
+        # OpenCV decodes to BGR; the model is fed RGB like raw frames
+        return cv2.cvtColor(image, cv2.COLOR_BGR2RGB)
+
+    if image_format:
+        raise ValueError(f'could not decode {image_format} image')
+
+    return decode_raw_rgba(image_bytes, width, height)
+
+
+def classify(image, top_k=DEFAULT_TOP_K):
+    """
+    Run the model on one decoded frame and return {letter, confidence, index, top_k}
+    """
+    input_data = preprocess_image(image)
+    interpreter.set_tensor(input_details[0]['index'], input_data)
+    interpreter.invoke()
+    output_data = interpreter.get_tensor(output_details[0]['index'])
+    probabilities = output_data[0]
+
+    predicted_index = int(np.argmax(probabilities))
+
+    return {
+        'letter': LETTER_LABELS[predicted_index],
+        'confidence': float(probabilities[predicted_index]),
+        'index': predicted_index,
+        'top_k': top_k_predictions(probabilities, top_k)
+    }
+
+
 @app.route('/health', methods=['GET'])
 def health_check():
     """Health check endpoint"""
     return jsonify({
         'status': 'healthy',
-        'model_loaded': interpreter is not None
+        'model_loaded': interpreter is not None,
+        'model_version': MANIFEST['version'] if MANIFEST else None,
+        'labels': LETTER_LABELS if MANIFEST else None,
+        'input_shape': MANIFEST['inputShape'] if MANIFEST else None,
+        'streaming': sock is not None
     })
 
 
+def top_k_predictions(probabilities, k):
+    """
+    The k most likely letters, highest first, as [{letter, probability}]
+    """
+    k = max(1, min(int(k), len(LETTER_LABELS)))
+    ranked = np.argsort(probabilities)[::-1][:k]
+    return [
+        {'letter': LETTER_LABELS[int(i)], 'probability': float(probabilities[i])}
+        for i in ranked
+    ]
+
+
 @app.route('/predict', methods=['POST'])
 def predict():
     """
     Predict hand sign from image
-    Expects JSON with base64 encoded image or raw bytes
+    Expects JSON {image, width, height, format} with a base64 encoded image
+    (format 'jpeg' or 'png') or raw RGBA pixels (format 'rgba')
     """
     if interpreter is None:
         return jsonify({
@@ -90,57 +219,15 @@ def predict():
         if 'image' not in data:
             return jsonify({'error': 'No image provided'}), 400
 
-        image_b64 = data['image']
-
-        # Remove data URL prefix if present
-        if ',' in image_b64:
-            image_b64 = image_b64.split(',')[1]
-
         try:
-            # Decode base64
-            image_bytes = base64.b64decode(image_b64)
-
-            # Try OpenCV first
-            nparr = np.frombuffer(image_bytes, np.uint8)
-            image = cv2.imdecode(nparr, cv2.IMREAD_COLOR)
-
-            # If OpenCV fails, try creating a simple grayscale image from raw bytes
-            if image is None:
-                # Assume it's raw pixel data
-                # For demo: create a random-ish grayscale image
-                width = data.get('width', 640)
-                height = data.get('height', 480)
-
-                # Create a simple test pattern (for demo purposes)
-                image = np.random.randint(0, 256, (height, width, 3), dtype=np.uint8)
-                print(f"Created dummy image from raw bytes: {width}x{height}")
+            image = decode_frame(
+                data['image'], data.get('width'), data.get('height'), data.get('format')
+            )
         except Exception as e:
             print(f"Error decoding image: {e}")
-            # Create dummy image for testing
-            image = np.random.randint(0, 256, (480, 640, 3), dtype=np.uint8)
-
-        # Preprocess image
-        input_data = preprocess_image(image)
-
-        # Run inference
-        interpreter.set_tensor(input_details[0]['index'], input_data)
-        interpreter.invoke()
+            return jsonify({'error': f'Could not decode image: {e}'}), 400
 
-        # Get output
-        output_data = interpreter.get_tensor(output_details[0]['index'])
-        probabilities = output_data[0]
-
-        # Get prediction
-        predicted_index = int(np.argmax(probabilities))
-        confidence = float(probabilities[predicted_index])
-        predicted_letter = LETTER_LABELS[predicted_index]
-
-        return jsonify({
-            'letter': predicted_letter,
-            'confidence': confidence,
-            'index': predicted_index,
-            'all_probabilities': probabilities.tolist()
-        })
+        return jsonify(classify(image, data.get('top_k', DEFAULT_TOP_K)))
 
     except Exception as e:
         print(f"Error during prediction: {e}")
@@ -155,7 +242,10 @@ def predict():
 def batch_predict():
     """
     Predict multiple frames for stability filtering
-    Expects JSON with array of base64 images
+    Expects JSON with an array of images, each either a base64 string or an
+    object {image, width, height, format} like /predict.
+    Results are returned in the same order; a frame that fails to decode gets
+    an {error} entry instead of a prediction.
     """
     if interpreter is None:
         return jsonify({'error': 'Model not loaded'}), 500
@@ -163,33 +253,24 @@ def batch_predict():
     try:
         data = request.json
         images = data.get('images', [])
+        top_k = data.get('top_k', DEFAULT_TOP_K)
 
         results = []
-        for image_b64 in images:
-            # Remove data URL prefix if present
-            if ',' in image_b64:
-                image_b64 = image_b64.split(',')[1]
-
-            # Decode and process
-            image_bytes = base64.b64decode(image_b64)
-            nparr = np.frombuffer(image_bytes, np.uint8)
-            image = cv2.imdecode(nparr, cv2.IMREAD_COLOR)
-
-            # Preprocess and predict
-            input_data = preprocess_image(image)
-            interpreter.set_tensor(input_details[0]['index'], input_data)
-            interpreter.invoke()
-            output_data = interpreter.get_tensor(output_details[0]['index'])
-            probabilities = output_data[0]
-
-            predicted_index = int(np.argmax(probabilities))
-            confidence = float(probabilities[predicted_index])
-
-            results.append({
-                'letter': LETTER_LABELS[predicted_index],
-                'confidence': confidence,
-                'index': predicted_index
-            })
+        for item in images:
+            if isinstance(item, dict):
+                image_b64 = item.get('image', '')
+                width, height = item.get('width'), item.get('height')
+                image_format = item.get('format')
+            else:
+                image_b64, width, height, image_format = item, None, None, None
+
+            try:
+                image = decode_frame(image_b64, width, height, image_format)
+            except Exception as e:
+                results.append({'error': f'Could not decode image: {e}'})
+                continue
+
+            results.append(classify(image, top_k))
 
         return jsonify({'predictions': results})
 
@@ -198,6 +279,57 @@ def batch_predict():
         return jsonify({'error': str(e)}), 500
 
 
+def handle_stream_message(raw):
+    """
+    Answer one frame message from the stream. The reply echoes the frame's
+    seq so the app can match it even with several frames in flight.
+    """
+    try:
+        message = json.loads(raw)
+    except (TypeError, ValueError):
+        return {'type': 'error', 'seq': None, 'error': 'Malformed message'}
+
+    seq = message.get('seq')
+
+    if message.get('type') != 'frame':
+        return {'type': 'error', 'seq': seq, 'error': f"Unknown message type: {message.get('type')}"}
+
+    if interpreter is None:
+        return {'type': 'error', 'seq': seq, 'error': 'Model not loaded'}
+
+    try:
+        image = decode_frame(
+            message.get('image', ''),
+            message.get('width'),
+            message.get('height'),
+            message.get('format')
+        )
+    except Exception as e:
+        return {'type': 'error', 'seq': seq, 'error': f'Could not decode image: {e}'}
+
+    try:
+        prediction = classify(image, message.get('top_k', DEFAULT_TOP_K))
+    except Exception as e:
+        print(f"Error during stream prediction: {e}")
+        return {'type': 'error', 'seq': seq, 'error': str(e)}
+
+    return {'type': 'prediction', 'seq': seq, **prediction}
+
+
+if sock:
+    @sock.route('/stream')
+    def stream(ws):
+        """
+        Persistent connection: the app pushes {type: 'frame', seq, image,
+        width, height} messages and gets one prediction (or error) per frame
+        """
+        while True:
+            raw = ws.receive()
+            if raw is None:
+                break
+            ws.send(json.dumps(handle_stream_message(raw)))
+
+
 if __name__ == '__main__':
     print("\n" + "="*50)
     print("Hand Sign Detection API Server")
@@ -210,6 +342,10 @@ if __name__ == '__main__':
     print("  GET  /health - Health check")
     print("  POST /predict - Single image prediction")
     print("  POST /batch-predict - Batch prediction")
+    if sock:
+        print("  WS   /stream - Streaming prediction")
+    else:
+        print("  (install flask-sock to enable WS /stream)")
     print("\nPress Ctrl+C to stop\n")
 
     # Run server
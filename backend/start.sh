@@ -50,8 +50,8 @@ if command -v hostname &> /dev/null; then
     if [ -n "$IP" ]; then
         echo "📍 Your IP address: $IP"
         echo ""
-        echo "⚠️  IMPORTANT: Update this IP in services/TFLiteService.ts"
-        echo "   Change: const API_URL = 'http://$IP:5000';"
+        echo "⚠️  IMPORTANT: Enter this server URL in the app's Settings screen"
+        echo "   http://$IP:5000"
     fi
 fi
 
@@ -1,4 +1,5 @@
-import { HomeScreenStyle } from "@/assets/styles/HomeScreen.style";
+import { createHomeScreenStyle } from "@/assets/styles/HomeScreen.style";
+import { useThemedStyles } from "@/hooks/useTheme";
 import { Image } from "expo-image";
 import { Pressable, Text, View } from "react-native";
 
@@ -19,6 +20,7 @@ const CameraCommunication = ({
   isActive,
   onPressOption,
 }: CameraCommunicationProps) => {
+  const HomeScreenStyle = useThemedStyles(createHomeScreenStyle);
   return (
     <View style={HomeScreenStyle.ImageSecondaryContainer}>
       <Pressable
@@ -28,18 +30,14 @@ const CameraCommunication = ({
         ]}
         onPress={() => onPressOption(id)}
       >
-        <View>
-          <Image
-            style={[
-              HomeScreenStyle.HomeScreenImage,
-              id === 1 && { height: 200, width: 140 },
-            ]}
-            source={imgURL}
-          />
-        </View>
+        <Image
+          style={HomeScreenStyle.HomeScreenImage}
+          source={imgURL}
+          contentFit="contain"
+        />
       </Pressable>
       <Text style={HomeScreenStyle.ImagePrimaryText}>{title}</Text>
-      <Text>{description}</Text>
+      <Text style={HomeScreenStyle.ImageDescriptionText}>{description}</Text>
     </View>
   );
 };
@@ -0,0 +1,71 @@
+import { createKeyboardScreenStyle } from "@/assets/styles/KeyboardScreen.style";
+import SignTile from "@/components/keyboardScreen/SignTile";
+import { useSignPlayback } from "@/hooks/useSignPlayback";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
+import type { SignToken } from "@/services/SignTranslationService";
+import FontAwesome from "@expo/vector-icons/FontAwesome";
+import { Text, TouchableOpacity, View } from "react-native";
+
+type SignPlaybackProps = {
+  text: string;
+  tokens: SignToken[];
+};
+
+//shows the translated text one sign at a time
+const SignPlayback = ({ text, tokens }: SignPlaybackProps) => {
+  const { colors } = useTheme();
+  const KeyboardScreenStyle = useThemedStyles(createKeyboardScreenStyle);
+  const {
+    index,
+    isPlaying,
+    speed,
+    isAtEnd,
+    play,
+    pause,
+    stepForward,
+    stepBack,
+    cycleSpeed,
+  } = useSignPlayback(tokens);
+
+  const token = tokens[index];
+  if (!token) return null;
+
+  return (
+    <View style={KeyboardScreenStyle.playbackContainer}>
+      <View style={KeyboardScreenStyle.playbackSign}>
+        <SignTile token={token} large />
+      </View>
+
+      {/* Source text with the current sign highlighted */}
+      <Text style={KeyboardScreenStyle.playbackText}>
+        {text.slice(0, token.start)}
+        <Text style={KeyboardScreenStyle.playbackHighlight}>{token.text}</Text>
+        {text.slice(token.end)}
+      </Text>
+
+      <View style={KeyboardScreenStyle.playbackControls}>
+        <TouchableOpacity onPress={stepBack} disabled={index === 0}>
+          <FontAwesome name="step-backward" size={26} color={colors.secondary} />
+        </TouchableOpacity>
+        <TouchableOpacity onPress={isPlaying ? pause : play}>
+          <FontAwesome
+            name={isPlaying ? "pause-circle" : "play-circle"}
+            size={44}
+            color={colors.secondary}
+          />
+        </TouchableOpacity>
+        <TouchableOpacity onPress={stepForward} disabled={isAtEnd}>
+          <FontAwesome name="step-forward" size={26} color={colors.secondary} />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={KeyboardScreenStyle.speedButton}
+          onPress={cycleSpeed}
+        >
+          <Text style={KeyboardScreenStyle.speedButtonText}>{speed}x</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+export default SignPlayback;
@@ -0,0 +1,118 @@
+import { SIGN_DESCRIPTIONS, SIGN_IMAGES } from "@/assets/HAND_SIGNS/signs";
+import { createKeyboardScreenStyle } from "@/assets/styles/KeyboardScreen.style";
+import { useLanguage } from "@/hooks/useLanguage";
+import { useThemedStyles } from "@/hooks/useTheme";
+import type { SignToken } from "@/services/SignTranslationService";
+import { Image } from "expo-image";
+import { Text, View } from "react-native";
+
+type SignTileProps = {
+  token: SignToken;
+  //playback shows one sign, larger
+  large?: boolean;
+};
+
+const SignTile = ({ token, large = false }: SignTileProps) => {
+  const KeyboardScreenStyle = useThemedStyles(createKeyboardScreenStyle);
+  const { language, strings } = useLanguage();
+  if (token.type === "space") {
+    return large ? (
+      <Text style={KeyboardScreenStyle.playbackPauseText}>␣</Text>
+    ) : (
+      <View style={KeyboardScreenStyle.space} />
+    );
+  }
+
+  if (token.type === "pause") {
+    return large ? (
+      <Text style={KeyboardScreenStyle.playbackPauseText}>{token.text}</Text>
+    ) : (
+      <View style={KeyboardScreenStyle.pause} />
+    );
+  }
+
+  //numbers, Ñ and NG have no photo yet
+  if (token.type === "letter" && !SIGN_IMAGES[token.key]) {
+    return (
+      <View
+        style={[
+          KeyboardScreenStyle.wordSign,
+          large && KeyboardScreenStyle.wordSignLarge,
+        ]}
+      >
+        <Text
+          style={KeyboardScreenStyle.wordSignDescription}
+          numberOfLines={large ? undefined : 3}
+        >
+          {SIGN_DESCRIPTIONS[token.key][language]}
+        </Text>
+        <Text style={KeyboardScreenStyle.wordSignGloss}>
+          {token.key.toUpperCase()}
+        </Text>
+        <Text style={KeyboardScreenStyle.wordSignNote}>
+          {strings.common.noPhotoYet}
+        </Text>
+      </View>
+    );
+  }
+
+  if (token.type === "letter") {
+    return (
+      <Image
+        source={SIGN_IMAGES[token.key]}
+        style={
+          large
+            ? KeyboardScreenStyle.playbackImage
+            : KeyboardScreenStyle.signImage
+        }
+      />
+    );
+  }
+
+  if (token.type === "word") {
+    const { entry } = token;
+    return (
+      <View
+        style={[
+          KeyboardScreenStyle.wordSign,
+          large && KeyboardScreenStyle.wordSignLarge,
+        ]}
+      >
+        {entry.media ? (
+          <Image
+            source={entry.media}
+            style={
+              large
+                ? KeyboardScreenStyle.playbackImage
+                : KeyboardScreenStyle.signImage
+            }
+          />
+        ) : (
+          <Text
+            style={KeyboardScreenStyle.wordSignDescription}
+            numberOfLines={large ? undefined : 3}
+          >
+            {entry.description[language]}
+          </Text>
+        )}
+        <Text style={KeyboardScreenStyle.wordSignGloss}>{entry.gloss}</Text>
+        {!entry.media && (
+          <Text style={KeyboardScreenStyle.wordSignNote}>
+            {strings.common.noPhotoYet}
+          </Text>
+        )}
+      </View>
+    );
+  }
+
+  //fallback for unsupported characters
+  return large ? (
+    <Text style={KeyboardScreenStyle.playbackPauseText}>{token.text}</Text>
+  ) : (
+    <View style={KeyboardScreenStyle.unknownWrap}>
+      <Text style={KeyboardScreenStyle.unknownText}>{token.text}</Text>
+    </View>
+  );
+};
+
+export default SignTile;
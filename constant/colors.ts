@@ -1,11 +1,90 @@
-const mainTheme = {
+export type ThemeName = "light" | "dark" | "highContrast";
+
+export interface ThemeColors {
+  // Screen background; also text on `secondary` buttons
+  primary: string;
+  // Brand colour for titles, buttons and icons
+  secondary: string;
+  // Cards, inputs and back buttons
+  accent: string;
+  text: string;
+  textMuted: string;
+  border: string;
+  success: string;
+  warning: string;
+  danger: string;
+  info: string;
+  // Panels drawn over the camera preview, which stay dark in every theme
+  overlay: string;
+  overlayText: string;
+  overlayTextMuted: string;
+  overlaySurface: string;
+  overlaySurfaceFaint: string;
+  // Text on the success/warning/info banners
+  bannerText: string;
+}
+
+const lightTheme: ThemeColors = {
   primary: "#FFFFFF",
   secondary: "#ED9DA0",
   accent: "#F6F6F6",
+  text: "#000000",
+  textMuted: "#666666",
+  border: "#CCCCCC",
+  success: "#4CAF50",
+  warning: "#FFC107",
+  danger: "#F44336",
+  info: "#2196F3",
+  overlay: "rgba(0, 0, 0, 0.7)",
+  overlayText: "#FFFFFF",
+  overlayTextMuted: "#AAAAAA",
+  overlaySurface: "rgba(255, 255, 255, 0.2)",
+  overlaySurfaceFaint: "rgba(255, 255, 255, 0.1)",
+  bannerText: "#000000",
+};
+
+const darkTheme: ThemeColors = {
+  primary: "#121212",
+  secondary: "#ED9DA0",
+  accent: "#262626",
+  text: "#F2F2F2",
+  textMuted: "#A0A0A0",
+  border: "#444444",
+  success: "#66BB6A",
+  warning: "#FFCA28",
+  danger: "#EF5350",
+  info: "#42A5F5",
+  overlay: "rgba(0, 0, 0, 0.8)",
+  overlayText: "#FFFFFF",
+  overlayTextMuted: "#AAAAAA",
+  overlaySurface: "rgba(255, 255, 255, 0.2)",
+  overlaySurfaceFaint: "rgba(255, 255, 255, 0.1)",
+  bannerText: "#000000",
 };
 
-export const THEMES = {
-  main: mainTheme,
+// For low-vision users: pure black and white with a yellow accent, and no
+// translucent panels over the camera
+const highContrastTheme: ThemeColors = {
+  primary: "#000000",
+  secondary: "#FFD600",
+  accent: "#1F1F1F",
+  text: "#FFFFFF",
+  textMuted: "#FFFFFF",
+  border: "#FFFFFF",
+  success: "#00E676",
+  warning: "#FFD600",
+  danger: "#FF5252",
+  info: "#40C4FF",
+  overlay: "#000000",
+  overlayText: "#FFFFFF",
+  overlayTextMuted: "#FFFFFF",
+  overlaySurface: "#333333",
+  overlaySurfaceFaint: "#1F1F1F",
+  bannerText: "#000000",
 };
 
-export const COLOR = THEMES.main;
+export const THEMES: Record<ThemeName, ThemeColors> = {
+  light: lightTheme,
+  dark: darkTheme,
+  highContrast: highContrastTheme,
+};
@@ -0,0 +1,557 @@
+import type { ModelMismatch } from "@/services/ModelManifest";
+import type { BenchmarkStage } from "@/services/ModelService";
+import type { PredictionErrorCode } from "@/services/RecognitionEngine";
+import type { ConnectionFailure } from "@/services/ServerConfigService";
+
+export type AppLanguage = "en" | "fil";
+
+// Options on the Home screen, see data/data.ts
+export type HomeOption = "camera" | "keyboard" | "dictionary";
+
+// Language names are shown in their own language in every catalog
+export const LANGUAGE_NAMES: Record<AppLanguage, string> = {
+  en: "English",
+  fil: "Filipino",
+};
+
+// BCP 47 codes used to format dates for the active language
+export const LANGUAGE_LOCALES: Record<AppLanguage, string> = {
+  en: "en-US",
+  fil: "fil-PH",
+};
+
+export interface Strings {
+  common: {
+    cancel: string;
+    error: string;
+    modelInitFailed: string;
+    cameraPermission: string;
+    grantPermission: string;
+    loadingModel: string;
+    // Shown on signs that are described but have no photo yet
+    noPhotoYet: string;
+  };
+  onboarding: {
+    // The tagline is split so "sign" can be highlighted
+    taglineStart: string;
+    taglineSign: string;
+    taglineEnd: string;
+    description: string;
+    getStarted: string;
+  };
+  home: {
+    greeting: string;
+    startNow: string;
+    options: Record<HomeOption, { title: string; description: string }>;
+  };
+  camera: {
+    paused: string;
+    detected: (letter: string) => string;
+    confidence: (percent: string) => string;
+    noPrediction: (error: string) => string;
+    predictionErrors: Record<PredictionErrorCode, string>;
+    translatedText: string;
+    noTextYet: string;
+    resume: string;
+    pause: string;
+    speak: string;
+    space: string;
+    delete: string;
+    clear: string;
+    bannerOnDevice: string;
+    bannerRemote: string;
+    bannerDemo: (title: string) => string;
+    bannerConnecting: string;
+    bannerUnavailable: (error: string) => string;
+    bannerCircuitOpen: string;
+    bannerDisconnected: string;
+    bannerNoDetection: string;
+  };
+  keyboard: {
+    allSigns: string;
+    playback: string;
+    placeholder: string;
+    translate: string;
+  };
+  practice: {
+    signTheLetter: string;
+    secondsLeft: (seconds: number) => string;
+    correct: string;
+    timeUp: string;
+    sawLetter: (letter: string) => string;
+    holdSteady: string;
+    allLetters: string;
+    weakLetters: string;
+    reset: string;
+    resetTitle: string;
+    resetMessage: string;
+  };
+  history: {
+    title: string;
+    clearAll: string;
+    searchPlaceholder: string;
+    noMatches: string;
+    empty: string;
+    deleteTitle: string;
+    deleteMessage: string;
+    delete: string;
+    clearTitle: string;
+    clearMessage: string;
+    clear: string;
+  };
+  dictionary: {
+    title: string;
+    searchPlaceholder: string;
+    all: string;
+    letters: string;
+    numbers: string;
+    words: string;
+    letter: string;
+    number: string;
+    word: string;
+    noMatches: string;
+    howToSign: string;
+    typedAs: string;
+    notFound: string;
+  };
+  settings: {
+    title: string;
+    language: string;
+    languageHelp: string;
+    system: string;
+    appearance: string;
+    light: string;
+    dark: string;
+    highContrast: string;
+    appearanceHelp: string;
+    serverUrl: string;
+    serverHelp: string;
+    testConnection: string;
+    save: string;
+    testing: string;
+    connected: string;
+    connectionFailed: (error: string) => string;
+    invalidUrl: string;
+    savedTitle: string;
+    savedMessage: (url: string) => string;
+    unreachableTitle: string;
+    unreachableMessage: string;
+    saveAnyway: string;
+    demoMode: string;
+    off: string;
+    demoHelp: string;
+    speech: string;
+    speakEachWord: string;
+    speechLanguage: string;
+    rate: string;
+    slow: string;
+    normal: string;
+    fast: string;
+    voice: string;
+    defaultVoice: string;
+    testVoice: string;
+    onDeviceModel: string;
+    benchmarkHelp: string;
+    runBenchmark: string;
+    benchmarkRunning: string;
+    benchmarkFailed: (error: string) => string;
+    benchmarkSummary: (frames: number, backend: string) => string;
+    benchmarkStages: Record<BenchmarkStage, string>;
+    benchmarkTiming: (stage: string, meanMs: string, p95Ms: string) => string;
+    benchmarkLeaks: (tensors: number) => string;
+  };
+  // Why the backend server can't be used, shared by Camera and Settings
+  server: {
+    modelNotLoaded: string;
+    modelMismatch: (mismatch: ModelMismatch) => string;
+    connectionFailure: (failure: ConnectionFailure) => string;
+  };
+}
+
+const en: Strings = {
+  common: {
+    cancel: "Cancel",
+    error: "Error",
+    modelInitFailed: "Failed to initialize model",
+    cameraPermission: "We need your permission to show the camera",
+    grantPermission: "Grant Permission",
+    loadingModel: "Loading Model...",
+    noPhotoYet: "No photo yet",
+  },
+  onboarding: {
+    taglineStart: "Breaking Barriers, One",
+    taglineSign: "Sign",
+    taglineEnd: "at a Time",
+    description:
+      "Understand and connect through sign language, enabling clearer communication without barriers.",
+    getStarted: "Get Started",
+  },
+  home: {
+    greeting: "Hi! How do you want to communicate?",
+    startNow: "Start Now",
+    options: {
+      camera: {
+        title: "Communicate through camera",
+        description: "Uses camera to translate hand signs",
+      },
+      keyboard: {
+        title: "Communicate through keyboard typing",
+        description: "(Best for deaf user)",
+      },
+      dictionary: {
+        title: "Browse the sign dictionary",
+        description: "Look up how each sign is formed",
+      },
+    },
+  },
+  camera: {
+    paused: "Paused",
+    detected: (letter) => `Detected: ${letter}`,
+    confidence: (percent) => `Confidence: ${percent}%`,
+    noPrediction: (error) => `⚠️ No prediction: ${error}`,
+    predictionErrors: {
+      timedOut: "the server took too long to answer",
+      serverError: "the server could not process the frame",
+      network: "the server could not be reached",
+      cancelled: "the request was cancelled",
+      unknown: "something went wrong",
+    },
+    translatedText: "Translated Text:",
+    noTextYet: "(No text yet)",
+    resume: "Resume",
+    pause: "Pause",
+    speak: "Speak",
+    space: "Space",
+    delete: "Delete",
+    clear: "Clear",
+    bannerOnDevice: "✅ On-Device Model - Real Detection Active!",
+    bannerRemote: "✅ Connected to AI Backend - Real Detection Active!",
+    bannerDemo: (title) => `🎬 DEMO MODE - Replaying "${title}", not the camera`,
+    bannerConnecting: "🔄 Connecting to AI Backend...",
+    bannerUnavailable: (error) => `⚠️ Backend Not Ready - ${error}`,
+    bannerCircuitOpen: "⚠️ Backend Stopped Responding - Reconnecting...",
+    bannerDisconnected: "⚠️ Backend Offline - Retrying, tap to set the server",
+    bannerNoDetection: "⚠️ No Detection - Tap to set the backend server",
+  },
+  keyboard: {
+    allSigns: "All Signs",
+    playback: "Playback",
+    placeholder: "Translate here…",
+    translate: "Translate",
+  },
+  practice: {
+    signTheLetter: "Sign the letter",
+    secondsLeft: (seconds) => `${seconds}s left`,
+    correct: "✅ Correct!",
+    timeUp: "⏰ Time's up",
+    sawLetter: (letter) => `Saw ${letter}, keep trying`,
+    holdSteady: "Hold the sign steady in view",
+    allLetters: "All Letters",
+    weakLetters: "Weak Letters",
+    reset: "Reset",
+    resetTitle: "Reset Progress",
+    resetMessage: "All practice accuracy will be cleared.",
+  },
+  history: {
+    title: "History",
+    clearAll: "Clear All",
+    searchPlaceholder: "Search transcripts…",
+    noMatches: "No matching transcripts",
+    empty: "No saved transcripts yet",
+    deleteTitle: "Delete Transcript",
+    deleteMessage: "This transcript will be removed.",
+    delete: "Delete",
+    clearTitle: "Clear History",
+    clearMessage: "All saved transcripts will be removed.",
+    clear: "Clear",
+  },
+  dictionary: {
+    title: "Sign Dictionary",
+    searchPlaceholder: "Search signs…",
+    all: "All",
+    letters: "Letters",
+    numbers: "Numbers",
+    words: "Words",
+    letter: "Letter",
+    number: "Number",
+    word: "Word",
+    noMatches: "No matching signs",
+    howToSign: "How to sign it",
+    typedAs: "Typed as",
+    notFound: "Sign not found",
+  },
+  settings: {
+    title: "Settings",
+    language: "App Language",
+    languageHelp: "System follows the language of the device.",
+    system: "System",
+    appearance: "Appearance",
+    light: "Light",
+    dark: "Dark",
+    highContrast: "High Contrast",
+    appearanceHelp:
+      "System follows the dark mode and high contrast settings of the device.",
+    serverUrl: "Recognition Server URL",
+    serverHelp:
+      "The computer running backend/server.py. Phone and computer must be on the same Wi-Fi.",
+    testConnection: "Test Connection",
+    save: "Save",
+    testing: "Testing connection...",
+    connected: "Connected - model loaded",
+    connectionFailed: (error) => `Connection failed: ${error}`,
+    invalidUrl: "Enter a valid URL, e.g. 192.168.1.30:5000",
+    savedTitle: "Saved",
+    savedMessage: (url) => `Server URL set to ${url}`,
+    unreachableTitle: "Server not reachable",
+    unreachableMessage: "Save this URL anyway?",
+    saveAnyway: "Save Anyway",
+    demoMode: "Demo Mode",
+    off: "Off",
+    demoHelp:
+      "Replays a scripted sequence on the Camera screen instead of reading signs. For demos and UI testing only.",
+    speech: "Speech",
+    speakEachWord: "Speak each word",
+    speechLanguage: "Language",
+    rate: "Rate",
+    slow: "Slow",
+    normal: "Normal",
+    fast: "Fast",
+    voice: "Voice",
+    defaultVoice: "Default",
+    testVoice: "Test Voice",
+    onDeviceModel: "On-Device Model",
+    benchmarkHelp:
+      "Times each stage of on-device recognition on a test frame. Needs the on-device model to be installed.",
+    runBenchmark: "Run Benchmark",
+    benchmarkRunning: "Running benchmark...",
+    benchmarkFailed: (error) => `Benchmark failed: ${error}`,
+    benchmarkSummary: (frames, backend) => `${frames} frames on ${backend}`,
+    benchmarkStages: {
+      preprocess: "Preprocess",
+      inference: "Inference",
+      postprocess: "Postprocess",
+    },
+    benchmarkTiming: (stage, meanMs, p95Ms) =>
+      `${stage}: ${meanMs} ms average, ${p95Ms} ms p95`,
+    benchmarkLeaks: (tensors) =>
+      tensors === 0 ? "No leaked tensors" : `${tensors} leaked tensors`,
+  },
+  server: {
+    modelNotLoaded: "Connected, but model not loaded",
+    modelMismatch: (mismatch) =>
+      mismatch.kind === "labels"
+        ? `Model mismatch: the server recognizes ${mismatch.serverLabels?.join(" ")}, ` +
+          "not the app's letters"
+        : `Model version mismatch: the server has ${mismatch.serverVersion}, ` +
+          `the app expects ${mismatch.appVersion}`,
+    connectionFailure: (failure) => {
+      switch (failure.code) {
+        case "invalidUrl":
+          return "Invalid URL";
+        case "timedOut":
+          return "Timed out";
+        case "httpStatus":
+          return `Health check failed with status ${failure.status}`;
+        case "network":
+          return failure.message;
+      }
+    },
+  },
+};
+
+const fil: Strings = {
+  common: {
+    cancel: "Kanselahin",
+    error: "Error",
+    modelInitFailed: "Hindi nasimulan ang model",
+    cameraPermission: "Kailangan namin ang iyong pahintulot para ipakita ang camera",
+    grantPermission: "Magbigay ng Pahintulot",
+    loadingModel: "Nilo-load ang Model...",
+    noPhotoYet: "Wala pang larawan",
+  },
+  onboarding: {
+    taglineStart: "Binubuwag ang Hadlang, Isang",
+    taglineSign: "Senyas",
+    taglineEnd: "sa Bawat Pagkakataon",
+    description:
+      "Umunawa at makipag-ugnayan sa pamamagitan ng sign language para sa mas malinaw na komunikasyon nang walang hadlang.",
+    getStarted: "Magsimula",
+  },
+  home: {
+    greeting: "Kumusta! Paano mo gustong makipag-usap?",
+    startNow: "Simulan Na",
+    options: {
+      camera: {
+        title: "Makipag-usap gamit ang camera",
+        description: "Isinasalin ng camera ang mga senyas ng kamay",
+      },
+      keyboard: {
+        title: "Makipag-usap sa pag-type",
+        description: "(Pinakamainam para sa bingi)",
+      },
+      dictionary: {
+        title: "Tingnan ang diksiyonaryo ng senyas",
+        description: "Alamin kung paano ginagawa ang bawat senyas",
+      },
+    },
+  },
+  camera: {
+    paused: "Naka-pause",
+    detected: (letter) => `Nakita: ${letter}`,
+    confidence: (percent) => `Katiyakan: ${percent}%`,
+    noPrediction: (error) => `⚠️ Walang hula: ${error}`,
+    predictionErrors: {
+      timedOut: "natagalan ang server sa pagsagot",
+      serverError: "hindi naproseso ng server ang frame",
+      network: "hindi maabot ang server",
+      cancelled: "kinansela ang request",
+      unknown: "may nangyaring mali",
+    },
+    translatedText: "Isinaling Teksto:",
+    noTextYet: "(Wala pang teksto)",
+    resume: "Ituloy",
+    pause: "I-pause",
+    speak: "Bigkasin",
+    space: "Espasyo",
+    delete: "Burahin",
+    clear: "I-clear",
+    bannerOnDevice: "✅ Model sa Device - Aktibo ang Tunay na Pagtukoy!",
+    bannerRemote: "✅ Konektado sa AI Backend - Aktibo ang Tunay na Pagtukoy!",
+    bannerDemo: (title) => `🎬 DEMO MODE - Inuulit ang "${title}", hindi ang camera`,
+    bannerConnecting: "🔄 Kumokonekta sa AI Backend...",
+    bannerUnavailable: (error) => `⚠️ Hindi Pa Handa ang Backend - ${error}`,
+    bannerCircuitOpen: "⚠️ Hindi na Sumasagot ang Backend - Muling kumokonekta...",
+    bannerDisconnected:
+      "⚠️ Offline ang Backend - Sinusubukang muli, i-tap para itakda ang server",
+    bannerNoDetection: "⚠️ Walang Pagtukoy - I-tap para itakda ang backend server",
+  },
+  keyboard: {
+    allSigns: "Lahat ng Senyas",
+    playback: "Isa-isa",
+    placeholder: "Mag-type dito…",
+    translate: "Isalin",
+  },
+  practice: {
+    signTheLetter: "Isenyas ang titik",
+    secondsLeft: (seconds) => `${seconds}s na lang`,
+    correct: "✅ Tama!",
+    timeUp: "⏰ Ubos na ang oras",
+    sawLetter: (letter) => `Nakita ang ${letter}, subukan pa`,
+    holdSteady: "Panatilihing steady ang senyas sa harap ng camera",
+    allLetters: "Lahat ng Titik",
+    weakLetters: "Mahihinang Titik",
+    reset: "I-reset",
+    resetTitle: "I-reset ang Progreso",
+    resetMessage: "Buburahin ang lahat ng naitalang katumpakan sa pagsasanay.",
+  },
+  history: {
+    title: "Kasaysayan",
+    clearAll: "I-clear Lahat",
+    searchPlaceholder: "Maghanap ng transcript…",
+    noMatches: "Walang tugmang transcript",
+    empty: "Wala pang naka-save na transcript",
+    deleteTitle: "Burahin ang Transcript",
+    deleteMessage: "Aalisin ang transcript na ito.",
+    delete: "Burahin",
+    clearTitle: "I-clear ang Kasaysayan",
+    clearMessage: "Aalisin ang lahat ng naka-save na transcript.",
+    clear: "I-clear",
+  },
+  dictionary: {
+    title: "Diksiyonaryo ng Senyas",
+    searchPlaceholder: "Maghanap ng senyas…",
+    all: "Lahat",
+    letters: "Mga Titik",
+    numbers: "Mga Numero",
+    words: "Mga Salita",
+    letter: "Titik",
+    number: "Numero",
+    word: "Salita",
+    noMatches: "Walang tugmang senyas",
+    howToSign: "Paano ito isenyas",
+    typedAs: "Itina-type bilang",
+    notFound: "Hindi nahanap ang senyas",
+  },
+  settings: {
+    title: "Mga Setting",
+    language: "Wika ng App",
+    languageHelp: "Sinusunod ng System ang wika ng device.",
+    system: "System",
+    appearance: "Itsura",
+    light: "Maliwanag",
+    dark: "Madilim",
+    highContrast: "High Contrast",
+    appearanceHelp:
+      "Sinusunod ng System ang dark mode at high contrast na setting ng device.",
+    serverUrl: "URL ng Recognition Server",
+    serverHelp:
+      "Ang computer na nagpapatakbo ng backend/server.py. Dapat nasa iisang Wi-Fi ang phone at computer.",
+    testConnection: "Subukan ang Koneksyon",
+    save: "I-save",
+    testing: "Sinusubukan ang koneksyon...",
+    connected: "Konektado - naka-load ang model",
+    connectionFailed: (error) => `Nabigo ang koneksyon: ${error}`,
+    invalidUrl: "Maglagay ng wastong URL, hal. 192.168.1.30:5000",
+    savedTitle: "Na-save",
+    savedMessage: (url) => `Itinakda ang server URL sa ${url}`,
+    unreachableTitle: "Hindi maabot ang server",
+    unreachableMessage: "I-save pa rin ang URL na ito?",
+    saveAnyway: "I-save Pa Rin",
+    demoMode: "Demo Mode",
+    off: "Naka-off",
+    demoHelp:
+      "Nagpapakita ng nakahandang pagkakasunod-sunod sa Camera screen sa halip na magbasa ng senyas. Para lang sa demo at UI testing.",
+    speech: "Pagbigkas",
+    speakEachWord: "Bigkasin ang bawat salita",
+    speechLanguage: "Wika",
+    rate: "Bilis",
+    slow: "Mabagal",
+    normal: "Karaniwan",
+    fast: "Mabilis",
+    voice: "Boses",
+    defaultVoice: "Default",
+    testVoice: "Subukan ang Boses",
+    onDeviceModel: "Model sa Device",
+    benchmarkHelp:
+      "Sinusukat ang bawat yugto ng pagkilala sa device gamit ang isang test frame. Kailangang naka-install ang model sa device.",
+    runBenchmark: "Patakbuhin ang Benchmark",
+    benchmarkRunning: "Pinapatakbo ang benchmark...",
+    benchmarkFailed: (error) => `Nabigo ang benchmark: ${error}`,
+    benchmarkSummary: (frames, backend) => `${frames} frame sa ${backend}`,
+    benchmarkStages: {
+      preprocess: "Paghahanda",
+      inference: "Inference",
+      postprocess: "Pagraranggo",
+    },
+    benchmarkTiming: (stage, meanMs, p95Ms) =>
+      `${stage}: ${meanMs} ms karaniwan, ${p95Ms} ms p95`,
+    benchmarkLeaks: (tensors) =>
+      tensors === 0 ? "Walang naiwang tensor" : `${tensors} naiwang tensor`,
+  },
+  server: {
+    modelNotLoaded: "Konektado, pero hindi naka-load ang model",
+    modelMismatch: (mismatch) =>
+      mismatch.kind === "labels"
+        ? `Hindi tugma ang model: ${mismatch.serverLabels?.join(" ")} ang kinikilala ng ` +
+          "server, hindi ang mga titik ng app"
+        : `Hindi tugma ang bersyon ng model: ${mismatch.serverVersion} ang nasa server, ` +
+          `${mismatch.appVersion} ang kailangan ng app`,
+    connectionFailure: (failure) => {
+      switch (failure.code) {
+        case "invalidUrl":
+          return "Hindi wastong URL";
+        case "timedOut":
+          return "Naubos ang oras ng paghihintay";
+        case "httpStatus":
+          return `Nabigo ang health check, status ${failure.status}`;
+        case "network":
+          return failure.message;
+      }
+    },
+  },
+};
+
+export const STRINGS: Record<AppLanguage, Strings> = {
+  en,
+  fil,
+};
@@ -1,14 +1,21 @@
+//titles and descriptions come from the string catalogs, under home.options
 export const CameraCommunicationData = [
   {
     id: 1,
-    title: "Communicate through camera",
-    description: "Uses camera to translate hand signs",
+    option: "camera",
     imgURL: require("../assets/images/homeScreen-image-1.png"),
+    route: "/home/camera",
   },
   {
     id: 2,
-    title: "Communicate through keyboard typing",
-    description: "(Best for deaf user)",
+    option: "keyboard",
     imgURL: require("../assets/images/homeScreen-image-2.png"),
+    route: "/home/keyboard",
   },
-];
+  {
+    id: 3,
+    option: "dictionary",
+    imgURL: require("../assets/HAND_SIGNS/a.jpg"),
+    route: "/dictionary",
+  },
+] as const;
@@ -0,0 +1,15 @@
+// Scripted letter sequences replayed by the demo recognition engine
+export const DemoSequenceData = [
+  {
+    id: "hello",
+    title: "HELLO",
+    letters: "HELLO",
+  },
+  {
+    id: "salamat",
+    title: "SALAMAT",
+    letters: "SALAMAT",
+  },
+];
+
+export type DemoSequence = (typeof DemoSequenceData)[number];
@@ -0,0 +1,92 @@
+import type { AppLanguage } from "@/constant/strings";
+
+// Whole-word signs used by the Keyboard translator instead of fingerspelling.
+//
+// Each entry is one sign. `phrases` are every lowercase spelling that maps
+// to it, in any language; multi-word phrases ("thank you") are matched
+// before their single words. `description` says how the sign is formed, in
+// each app language. `media` is a require()'d image or GIF of the
+// sign; until one is recorded, the Keyboard translator and the Dictionary
+// show the gloss and description on a card, like the numbers, Ñ and NG.
+export type SignLexiconEntry = {
+  id: string;
+  gloss: string;
+  phrases: string[];
+  description: Record<AppLanguage, string>;
+  media?: number;
+};
+
+export const SignLexiconData: SignLexiconEntry[] = [
+  {
+    id: "thank-you",
+    gloss: "SALAMAT",
+    phrases: ["salamat", "thank you", "thanks"],
+    description: {
+      en: "Flat hand, fingertips at the chin, moves forward and down",
+      fil: "Nakabukas ang palad, nasa baba ang dulo ng mga daliri, iginagalaw pasulong at pababa",
+    },
+  },
+  {
+    id: "hello",
+    gloss: "HELLO",
+    phrases: ["hello", "hi", "kumusta"],
+    description: {
+      en: "Flat hand at the forehead, moves outward like a salute",
+      fil: "Nakabukas ang palad sa noo, iginagalaw palabas na parang saludo",
+    },
+  },
+  {
+    id: "i-love-you",
+    gloss: "I LOVE YOU",
+    phrases: ["i love you", "mahal kita"],
+    description: {
+      en: "Thumb, index and pinky extended, palm facing out",
+      fil: "Nakaunat ang hinlalaki, hintuturo at hinliliit, nakaharap palabas ang palad",
+    },
+  },
+  {
+    id: "yes",
+    gloss: "OO",
+    phrases: ["oo", "opo", "yes"],
+    description: {
+      en: "Closed fist nods up and down",
+      fil: "Tumatango pataas at pababa ang nakakuyom na kamay",
+    },
+  },
+  {
+    id: "no",
+    gloss: "HINDI",
+    phrases: ["hindi", "no"],
+    description: {
+      en: "Index and middle finger close onto the thumb",
+      fil: "Sumasara ang hintuturo at hinlalato sa hinlalaki",
+    },
+  },
+  {
+    id: "sorry",
+    gloss: "PATAWAD",
+    phrases: ["patawad", "sorry"],
+    description: {
+      en: "Closed fist circles on the chest",
+      fil: "Umiikot sa dibdib ang nakakuyom na kamay",
+    },
+  },
+  {
+    id: "help",
+    gloss: "TULONG",
+    phrases: ["tulong", "help"],
+    description: {
+      en: "Thumbs-up fist rests on the flat palm, both lift together",
+      fil: "Nakapatong sa nakabukas na palad ang kamay na naka-thumbs-up, sabay na iniaangat",
+    },
+  },
+  {
+    id: "goodbye",
+    gloss: "PAALAM",
+    phrases: ["paalam", "goodbye", "bye"],
+    description: {
+      en: "Open hand, palm out, fingers fold down and up",
+      fil: "Nakabukas ang kamay, nakaharap palabas ang palad, itinitiklop pababa at pataas ang mga daliri",
+    },
+  },
+];
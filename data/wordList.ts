@@ -0,0 +1,43 @@
+// Bundled word lists for fingerspelling suggestions, most common first.
+// Position in the list is used as the frequency rank.
+export const ENGLISH_WORDS = [
+  "the", "be", "to", "of", "and", "a", "in", "that", "have", "i",
+  "it", "for", "not", "on", "with", "he", "as", "you", "do", "at",
+  "this", "but", "his", "by", "from", "they", "we", "say", "her", "she",
+  "or", "an", "will", "my", "one", "all", "would", "there", "their", "what",
+  "so", "up", "out", "if", "about", "who", "get", "which", "go", "me",
+  "when", "make", "can", "like", "time", "no", "just", "him", "know", "take",
+  "people", "into", "year", "your", "good", "some", "could", "them", "see", "other",
+  "than", "then", "now", "look", "only", "come", "its", "over", "think", "also",
+  "back", "after", "use", "two", "how", "our", "work", "first", "well", "way",
+  "even", "new", "want", "because", "any", "these", "give", "day", "most", "us",
+  "is", "are", "was", "am", "yes", "please", "thank", "thanks", "sorry", "hello",
+  "hi", "bye", "goodbye", "help", "name", "where", "why", "water", "food", "eat",
+  "drink", "home", "school", "family", "friend", "mother", "father", "sister", "brother", "baby",
+  "love", "happy", "sad", "sick", "hurt", "doctor", "hospital", "bathroom", "toilet", "money",
+  "today", "tomorrow", "yesterday", "morning", "night", "again", "more", "stop", "wait", "slow",
+  "fast", "understand", "sign", "language", "deaf", "hear", "learn", "teacher", "student", "book",
+  "phone", "call", "need", "feel", "fine", "okay", "welcome", "nice", "meet", "live",
+  "house", "car", "bus", "problem", "emergency", "police", "fire", "left", "right", "here",
+];
+
+export const FILIPINO_WORDS = [
+  "ang", "ng", "sa", "na", "at", "ay", "mga", "ako", "ka", "siya",
+  "ito", "iyan", "iyon", "hindi", "oo", "po", "opo", "ko", "mo", "niya",
+  "kami", "tayo", "kayo", "sila", "natin", "namin", "ninyo", "nila", "ano", "sino",
+  "saan", "kailan", "bakit", "paano", "ilan", "magkano", "may", "mayroon", "wala", "gusto",
+  "ayaw", "kailangan", "pwede", "puwede", "salamat", "maraming", "kumusta", "kamusta", "magandang", "umaga",
+  "hapon", "gabi", "tanghali", "paalam", "ingat", "pasensya", "patawad", "tulong", "tulungan", "pangalan",
+  "bahay", "paaralan", "eskwela", "guro", "estudyante", "pamilya", "nanay", "tatay", "ina", "ama",
+  "kapatid", "ate", "kuya", "anak", "lola", "lolo", "kaibigan", "mahal", "kita", "ibig",
+  "masaya", "malungkot", "galit", "takot", "pagod", "gutom", "uhaw", "busog", "sakit", "masakit",
+  "doktor", "ospital", "gamot", "tubig", "pagkain", "kain", "kumain", "inom", "uminom", "tulog",
+  "matulog", "ligo", "banyo", "kubeta", "pera", "bayad", "bili", "bumili", "tindahan", "palengke",
+  "ngayon", "bukas", "kahapon", "mamaya", "kanina", "araw", "linggo", "buwan", "taon", "oras",
+  "dito", "diyan", "doon", "kaliwa", "kanan", "tuloy", "hinto", "hintay", "sandali", "bilis",
+  "dahan", "ulit", "isa", "dalawa", "tatlo", "apat", "lima", "anim", "pito", "walo",
+  "siyam", "sampu", "maganda", "pangit", "mabait", "malaki", "maliit", "mabuti", "masama", "bago",
+  "luma", "mainit", "malamig", "bingi", "pipi", "senyas", "wika", "intindi", "naiintindihan", "alam",
+  "aral", "pumasok", "libro", "telepono", "tawag", "tumawag", "punta", "pumunta", "uwi", "umuwi",
+  "sasakyan", "dyip", "jeep", "bus", "pulis", "sunog", "saklolo", "emerhensiya", "trabaho", "laro",
+];
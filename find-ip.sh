@@ -25,9 +25,9 @@ fi
 if [ -n "$IP" ]; then
     echo "✅ Your IP address: $IP"
     echo ""
-    echo "📝 Update this in services/TFLiteService.ts:"
+    echo "📝 Enter this in the app under Home → ⚙️ Settings:"
     echo ""
-    echo "   const API_URL = 'http://$IP:5000';"
+    echo "   http://$IP:5000"
     echo ""
 else
     echo "❌ Could not automatically detect IP address"
@@ -1,94 +1,453 @@
-import { useState, useRef, useCallback } from 'react';
-import TFLiteService, { CONFIDENCE_THRESHOLD, STABILITY_FRAMES } from '../services/TFLiteService';
+import type { CameraView } from 'expo-camera';
+import { useState, useRef, useCallback, useEffect, useMemo, type RefObject } from 'react';
+import FrameCaptureService, { type CapturedFrame } from '../services/FrameCaptureService';
+import { HandDetector, cropToHand, type HandBox } from '../services/HandDetector';
+import {
+  LetterStabilizer,
+  type StabilizerConfig,
+} from '../services/LetterStabilizer';
+import {
+  MotionLetterDetector,
+  type MotionLetterConfig,
+} from '../services/MotionLetterDetector';
+import { MotionTracker, type TrackPoint } from '../services/MotionTracker';
+import {
+  PredictionError,
+  type EngineType,
+  type LetterProbability,
+  type PredictionErrorCode,
+  type PredictionResult,
+} from '../services/RecognitionEngine';
+import RecognitionService from '../services/RecognitionService';
+import type { ConnectionState } from '../services/TFLiteService';
+import WordSuggestionService, {
+  type SuggestionLanguage,
+} from '../services/WordSuggestionService';
 
-interface DetectionResult {
-  letter: string;
-  confidence: number;
-  translatedText: string;
+export const DEFAULT_TARGET_FPS = 2;
+// While the hand is moving, frames are captured at least this often so a J
+// or Z, about a second long, yields enough trajectory points for its strokes
+export const MOTION_FPS = 6;
+// How long the raised rate is kept after the last movement was seen
+const MOTION_HOLD_MS = 1000;
+// Streamed frames awaiting a reply; capture skips frames beyond this so a
+// slow server is not flooded
+const MAX_IN_FLIGHT_FRAMES = 3;
+
+interface HandSignDetectionOptions {
+  cameraRef: RefObject<CameraView | null>;
+  // Frames captured per second while running
+  targetFps?: number;
+  stabilizerConfig?: Partial<StabilizerConfig>;
+  motionConfig?: Partial<MotionLetterConfig>;
+  suggestionLanguage?: SuggestionLanguage;
+  onLetterConfirmed?: (letter: string) => void;
+  // A word was finished with a space or a suggestion
+  onWordCompleted?: (word: string) => void;
+  onPrediction?: (result: PredictionResult | null) => void;
+  onError?: (error: Error) => void;
 }
 
-export const useHandSignDetection = () => {
+/**
+ * Single detection controller for the Camera screen: initializes recognition,
+ * runs the capture loop, stabilizes predictions and owns the translated text.
+ */
+export const useHandSignDetection = ({
+  cameraRef,
+  targetFps: initialTargetFps = DEFAULT_TARGET_FPS,
+  stabilizerConfig = {},
+  motionConfig = {},
+  suggestionLanguage = 'all',
+  onLetterConfirmed,
+  onWordCompleted,
+  onPrediction,
+  onError,
+}: HandSignDetectionOptions) => {
+  const [isReady, setIsReady] = useState<boolean>(false);
+  const [isPaused, setIsPaused] = useState<boolean>(false);
+  const [targetFps, setTargetFps] = useState<number>(initialTargetFps);
+  const [activeEngine, setActiveEngine] = useState<EngineType | null>(null);
+  const [demoTitle, setDemoTitle] = useState<string | null>(null);
+  // Backend server connection while the remote engine is in use
+  const [connection, setConnection] = useState<ConnectionState | null>(null);
   const [translatedText, setTranslatedText] = useState<string>('');
   const [currentLetter, setCurrentLetter] = useState<string>('');
   const [currentConfidence, setCurrentConfidence] = useState<number>(0);
+  // Ranked letters for the latest frame, to show when the model is torn
+  const [currentTopK, setCurrentTopK] = useState<LetterProbability[]>([]);
   const [isProcessing, setIsProcessing] = useState<boolean>(false);
+  // Why the latest frames could not be classified, mapped to a message by the screen
+  const [predictionError, setPredictionError] = useState<PredictionErrorCode | null>(null);
+  // Where the hand was found in the latest frame, for the guide rectangle
+  const [handBox, setHandBox] = useState<HandBox | null>(null);
 
   // Stability tracking
-  const predictionBuffer = useRef<string[]>([]);
-  const lastConfirmedLetter = useRef<string>('');
+  const stabilizer = useRef<LetterStabilizer | null>(null);
+  if (stabilizer.current === null) {
+    stabilizer.current = new LetterStabilizer(stabilizerConfig);
+  }
+  const frameBatch = useRef<CapturedFrame[]>([]);
+  // Hand movement in each batched frame, tracked as it was captured
+  const batchPoints = useRef<(TrackPoint | null)[]>([]);
+  // When the tracker last saw the hand move, to raise the capture rate
+  const lastMotionAt = useRef(0);
+  // Batches are numbered as they are sent; a reply for a batch older than
+  // the last one applied (or sent before a pause) is dropped
+  const sentBatches = useRef(0);
+  const appliedBatch = useRef(0);
+  const inFlightFrames = useRef(0);
+
+  // Motion letters (J, Z) are recognized from the hand trajectory
+  const motionTracker = useRef(new MotionTracker());
+  // The hand is cropped out of each frame so it fills the model input
+  const handDetector = useRef(new HandDetector());
+  const motionDetector = useRef<MotionLetterDetector | null>(null);
+  if (motionDetector.current === null) {
+    motionDetector.current = new MotionLetterDetector(motionConfig);
+  }
+  const frameCount = useRef(0);
+  const lastConfirmed = useRef<{ letter: string; frame: number } | null>(null);
+
+  // Model confidence of each character in translatedText, for word correction
+  const letterConfidences = useRef<number[]>([]);
+
+  // Latest callbacks, so changing them doesn't restart the capture loop
+  const callbacks = useRef({ onLetterConfirmed, onWordCompleted, onPrediction, onError });
+  callbacks.current = { onLetterConfirmed, onWordCompleted, onPrediction, onError };
+
+  // Latest text, for events raised outside of render
+  const textRef = useRef('');
+
+  const updateEngineState = useCallback(() => {
+    setActiveEngine(RecognitionService.getActiveEngineType());
+    setDemoTitle(RecognitionService.getDemoSequenceTitle());
+    setConnection(RecognitionService.getConnectionState());
+  }, []);
+
+  // Initialize recognition
+  useEffect(() => {
+    // Set once the screen is left, so a late result is not reported
+    let cancelled = false;
+
+    const initialize = async () => {
+      try {
+        await RecognitionService.initialize();
+        if (cancelled) return;
+        updateEngineState();
+        setIsReady(true);
+      } catch (error: any) {
+        if (cancelled) return;
+        console.error('Initialization error:', error);
+        callbacks.current.onError?.(error);
+      }
+    };
+
+    initialize();
+
+    const pendingFrames = frameBatch;
+
+    return () => {
+      cancelled = true;
+      pendingFrames.current.forEach((frame) => FrameCaptureService.releaseFrame(frame));
+      pendingFrames.current = [];
+      RecognitionService.dispose();
+    };
+  }, [updateEngineState]);
 
-  const processFrame = useCallback(
-    async (imageData: Uint8Array, width: number, height: number): Promise<void> => {
-      if (isProcessing) return;
+  // The server is health-checked in the background; follow it live
+  useEffect(() => {
+    if (!isReady) return;
+    return RecognitionService.subscribeToConnection(updateEngineState);
+  }, [isReady, updateEngineState]);
 
-      setIsProcessing(true);
+  /**
+   * Re-select the engine and re-check its availability
+   */
+  const refreshEngine = useCallback(async () => {
+    await RecognitionService.refresh();
+    updateEngineState();
+  }, [updateEngineState]);
+
+  // Stability filtering for one prediction: majority vote with neutral reset,
+  // plus motion letters from the hand trajectory
+  const handlePrediction = useCallback(
+    (result: PredictionResult | null, point: TrackPoint | null) => {
+      const frame = ++frameCount.current;
+
+      // No prediction: nothing is shown
+      setCurrentLetter(result?.letter ?? '');
+      setCurrentConfidence(result?.confidence ?? 0);
+      setCurrentTopK(result?.topK ?? []);
+      callbacks.current.onPrediction?.(result);
+
+      const confirmedLetter = stabilizer.current!.push(result);
+      if (confirmedLetter) {
+        setTranslatedText((prev) => prev + confirmedLetter);
+        letterConfidences.current.push(result?.confidence ?? 1);
+        lastConfirmed.current = { letter: confirmedLetter, frame };
+        callbacks.current.onLetterConfirmed?.(confirmedLetter);
+      }
+
+      const motion = motionDetector.current!.push({
+        letter: result?.letter ?? null,
+        point,
+      });
+      if (!motion) return;
+
+      // J starts from I (Z from D): if that handshape was just confirmed as
+      // its own letter during the motion, the motion letter replaces it
+      const last = lastConfirmed.current;
+      const replacesLast =
+        last !== null &&
+        last.letter === motion.handshape &&
+        frame - last.frame <= stabilizer.current!.getWindowSize() * 2;
+
+      if (replacesLast) {
+        letterConfidences.current.pop();
+      }
+      letterConfidences.current.push(1);
+      setTranslatedText((prev) =>
+        replacesLast && prev.endsWith(motion.handshape)
+          ? prev.slice(0, -1) + motion.letter
+          : prev + motion.letter
+      );
+      lastConfirmed.current = { letter: motion.letter, frame };
+      stabilizer.current!.hold(motion.handshape);
+      callbacks.current.onLetterConfirmed?.(motion.letter);
+    },
+    []
+  );
+
+  const reportError = useCallback((error: any) => {
+    console.error('Error processing frame:', error);
+    setCurrentLetter('');
+    setCurrentConfidence(0);
+    setCurrentTopK([]);
+    setPredictionError(error instanceof PredictionError ? error.code : 'unknown');
+    callbacks.current.onError?.(error);
+  }, []);
+
+  // Locate the hand in each frame and classify just that region, then apply
+  // the results in frame order; frames where no hand is found are classified whole
+  const classifyFrames = useCallback(
+    async (frames: CapturedFrame[], points: (TrackPoint | null)[]): Promise<void> => {
+      const batch = ++sentBatches.current;
 
       try {
-        const result = await TFLiteService.predict(imageData, width, height);
-
-        if (result) {
-          const { letter, confidence } = result;
-
-          setCurrentLetter(letter);
-          setCurrentConfidence(confidence);
-
-          // Stability filtering logic (matching Python implementation)
-          if (confidence > CONFIDENCE_THRESHOLD) {
-            // Add to prediction buffer
-            predictionBuffer.current.push(letter);
-
-            // Keep buffer at STABILITY_FRAMES size
-            if (predictionBuffer.current.length > STABILITY_FRAMES) {
-              predictionBuffer.current.shift();
-            }
-
-            // Check if all predictions in buffer are the same
-            if (
-              predictionBuffer.current.length === STABILITY_FRAMES &&
-              new Set(predictionBuffer.current).size === 1
-            ) {
-              const confirmedLetter = predictionBuffer.current[0];
-
-              // Only add if different from last confirmed letter
-              if (confirmedLetter !== lastConfirmedLetter.current) {
-                setTranslatedText((prev) => prev + confirmedLetter);
-                lastConfirmedLetter.current = confirmedLetter;
-              }
-            }
-          }
+        const boxes = frames.map((frame, i) => handDetector.current.detect(frame, points[i]));
+        const inputs = frames.map((frame, i) => {
+          const box = boxes[i];
+          return box ? cropToHand(frame, box) : frame;
+        });
+        setHandBox(boxes[boxes.length - 1]);
+
+        // Get predictions from the active recognition engine, in frame order
+        let results: (PredictionResult | null)[];
+        try {
+          results = await RecognitionService.predictBatch(inputs);
+        } finally {
+          // The captured images are on disk; they are not needed once classified
+          frames.forEach((frame) => FrameCaptureService.releaseFrame(frame));
         }
-      } catch (error) {
-        console.error('Error processing frame:', error);
-      } finally {
-        setIsProcessing(false);
+
+        if (batch <= appliedBatch.current) return;
+        appliedBatch.current = batch;
+
+        setPredictionError(null);
+        results.forEach((result, i) => handlePrediction(result, points[i]));
+      } catch (error: any) {
+        if (batch <= appliedBatch.current) return;
+        reportError(error);
       }
     },
-    [isProcessing]
+    [handlePrediction, reportError]
   );
 
+  // Capture a live frame from the camera and run it through the model
+  const processNextFrame = useCallback(async (): Promise<void> => {
+    if (!RecognitionService.isReady()) return;
+    if (inFlightFrames.current >= MAX_IN_FLIGHT_FRAMES) return;
+
+    setIsProcessing(true);
+
+    try {
+      // The demo engine replays a script and does not look at the camera
+      const frame =
+        RecognitionService.getActiveEngineType() === 'demo'
+          ? { data: new Uint8Array(0), width: 0, height: 0 }
+          : await FrameCaptureService.captureFrame(cameraRef.current);
+      if (!frame) return;
+
+      const point = motionTracker.current.track(frame);
+      if (point) lastMotionAt.current = Date.now();
+
+      // Collect frames until there are enough for one request
+      frameBatch.current.push(frame);
+      batchPoints.current.push(point);
+      if (frameBatch.current.length < RecognitionService.getBatchSize()) return;
+
+      const frames = frameBatch.current;
+      const points = batchPoints.current;
+      frameBatch.current = [];
+      batchPoints.current = [];
+
+      // Over the stream the reply comes back on its own, matched to the
+      // frame by sequence number, so the next frame is captured meanwhile
+      if (RecognitionService.isStreaming()) {
+        inFlightFrames.current += frames.length;
+        classifyFrames(frames, points).finally(() => {
+          inFlightFrames.current -= frames.length;
+        });
+        return;
+      }
+
+      await classifyFrames(frames, points);
+    } catch (error: any) {
+      reportError(error);
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [cameraRef, classifyFrames, reportError]);
+
+  // Capture loop: one frame at a time, paced to the target frame rate, or
+  // MOTION_FPS while the hand moves
+  useEffect(() => {
+    if (!isReady || isPaused) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const frameInterval = 1000 / Math.max(targetFps, 0.1);
+    const motionInterval = Math.min(frameInterval, 1000 / MOTION_FPS);
+
+    const tick = async () => {
+      const startedAt = Date.now();
+      await processNextFrame();
+      if (cancelled) return;
+
+      const moving = Date.now() - lastMotionAt.current < MOTION_HOLD_MS;
+      const interval = moving ? motionInterval : frameInterval;
+      const elapsed = Date.now() - startedAt;
+      timer = setTimeout(tick, Math.max(0, interval - elapsed));
+    };
+
+    timer = setTimeout(tick, frameInterval);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [isReady, isPaused, targetFps, processNextFrame]);
+
+  const pause = useCallback(() => {
+    setIsPaused(true);
+    frameBatch.current.forEach((frame) => FrameCaptureService.releaseFrame(frame));
+    frameBatch.current = [];
+    batchPoints.current = [];
+    // Replies still in flight belong to frames from before the pause
+    appliedBatch.current = sentBatches.current;
+    setCurrentLetter('');
+    setCurrentConfidence(0);
+    setCurrentTopK([]);
+    setHandBox(null);
+  }, []);
+
+  const resume = useCallback(() => {
+    stabilizer.current!.reset();
+    motionTracker.current.reset();
+    handDetector.current.reset();
+    motionDetector.current!.reset();
+    setIsPaused(false);
+  }, []);
+
   const clearText = useCallback(() => {
     setTranslatedText('');
-    predictionBuffer.current = [];
-    lastConfirmedLetter.current = '';
+    letterConfidences.current = [];
+    stabilizer.current!.reset();
+    motionDetector.current!.reset();
+    lastConfirmed.current = null;
   }, []);
 
+  /**
+   * Replace the text, e.g. to continue a transcript reopened from History
+   */
+  const loadText = useCallback((text: string) => {
+    clearText();
+    setTranslatedText(text);
+    letterConfidences.current = new Array(text.length).fill(1);
+  }, [clearText]);
+
   const deleteLastCharacter = useCallback(() => {
     setTranslatedText((prev) => prev.slice(0, -1));
+    letterConfidences.current.pop();
   }, []);
 
   const addSpace = useCallback(() => {
+    const word = getLastWord(textRef.current);
     setTranslatedText((prev) => prev + ' ');
-    lastConfirmedLetter.current = ' ';
+    letterConfidences.current.push(1);
+    if (word) {
+      callbacks.current.onWordCompleted?.(word);
+    }
+  }, []);
+
+  textRef.current = translatedText;
+  const currentWord = getLastWord(translatedText);
+
+  const suggestions = useMemo(
+    () =>
+      WordSuggestionService.getSuggestions(
+        currentWord,
+        letterConfidences.current.slice(-currentWord.length),
+        suggestionLanguage
+      ),
+    [currentWord, suggestionLanguage]
+  );
+
+  /**
+   * Replace the word being spelled with a suggestion and start a new word
+   */
+  const applySuggestion = useCallback((word: string) => {
+    setTranslatedText((prev) => {
+      const wordStart = prev.lastIndexOf(' ') + 1;
+      letterConfidences.current = [
+        ...letterConfidences.current.slice(0, wordStart),
+        ...new Array(word.length + 1).fill(1),
+      ];
+      return prev.slice(0, wordStart) + word + ' ';
+    });
+    callbacks.current.onWordCompleted?.(word);
   }, []);
 
   return {
+    isReady,
+    isPaused,
+    targetFps,
+    activeEngine,
+    demoTitle,
+    connection,
     translatedText,
     currentLetter,
     currentConfidence,
+    currentTopK,
+    handBox,
     isProcessing,
-    processFrame,
+    predictionError,
+    pause,
+    resume,
+    setTargetFps,
+    refreshEngine,
     clearText,
+    loadText,
     deleteLastCharacter,
     addSpace,
+    currentWord,
+    suggestions,
+    applySuggestion,
   };
 };
+
+/**
+ * Word being spelled: everything after the last space
+ */
+const getLastWord = (text: string): string =>
+  text.slice(text.lastIndexOf(' ') + 1);
@@ -0,0 +1,84 @@
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+  type ReactNode,
+} from 'react';
+import { AppState } from 'react-native';
+import { LANGUAGE_LOCALES, STRINGS, type AppLanguage, type Strings } from '../constant/strings';
+import LanguageService, { type LanguagePreference } from '../services/LanguageService';
+
+interface LanguageContextValue {
+  // Language in use, after resolving 'system'
+  language: AppLanguage;
+  // BCP 47 code for formatting dates in the active language
+  locale: string;
+  strings: Strings;
+  preference: LanguagePreference;
+  setPreference: (preference: LanguagePreference) => void;
+}
+
+const LanguageContext = createContext<LanguageContextValue>({
+  language: 'en',
+  locale: LANGUAGE_LOCALES.en,
+  strings: STRINGS.en,
+  preference: 'system',
+  setPreference: () => {},
+});
+
+// Filipino, or its Tagalog base, selects the Filipino catalog; anything else is English
+const getDeviceLanguage = (): AppLanguage => {
+  const locale = Intl.DateTimeFormat().resolvedOptions().locale.toLowerCase();
+  return locale.startsWith('fil') || locale.startsWith('tl') ? 'fil' : 'en';
+};
+
+/**
+ * Provides the UI strings to every screen. Follows the device language by
+ * default; a choice made in Settings overrides it.
+ */
+export const LanguageProvider = ({ children }: { children: ReactNode }) => {
+  const [preference, setPreferenceState] = useState<LanguagePreference>('system');
+  const [deviceLanguage, setDeviceLanguage] = useState<AppLanguage>(getDeviceLanguage);
+
+  useEffect(() => {
+    LanguageService.getPreference().then(setPreferenceState);
+  }, []);
+
+  // The device language can change while the app is in the background
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') setDeviceLanguage(getDeviceLanguage());
+    });
+    return () => subscription.remove();
+  }, []);
+
+  const setPreference = useCallback((next: LanguagePreference) => {
+    setPreferenceState(next);
+    LanguageService.setPreference(next);
+  }, []);
+
+  const language: AppLanguage = preference === 'system' ? deviceLanguage : preference;
+
+  const value = useMemo(
+    () => ({
+      language,
+      locale: LANGUAGE_LOCALES[language],
+      strings: STRINGS[language],
+      preference,
+      setPreference,
+    }),
+    [language, preference, setPreference]
+  );
+
+  return <LanguageContext.Provider value={value}>{children}</LanguageContext.Provider>;
+};
+
+export const useLanguage = () => useContext(LanguageContext);
+
+/**
+ * UI strings in the active language
+ */
+export const useStrings = () => useLanguage().strings;
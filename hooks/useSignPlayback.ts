@@ -0,0 +1,99 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { SignToken } from '../services/SignTranslationService';
+
+// How long each fingerspelled letter is shown at 1x speed
+export const LETTER_DURATION_MS = 900;
+// Whole-word signs carry more movement, so they stay up longer
+export const WORD_SIGN_DURATION_MS = 1800;
+// Extra hold on a space or comma, so words read as separate units
+export const WORD_PAUSE_MS = 1200;
+// Hold at the end of a sentence
+export const SENTENCE_PAUSE_MS = 2000;
+export const PLAYBACK_SPEEDS = [0.5, 1, 1.5, 2];
+
+const durationOf = (token: SignToken): number => {
+  switch (token.type) {
+    case 'space':
+      return WORD_PAUSE_MS;
+    case 'pause':
+      return token.sentenceEnd ? SENTENCE_PAUSE_MS : WORD_PAUSE_MS;
+    case 'word':
+      return WORD_SIGN_DURATION_MS;
+    default:
+      return LETTER_DURATION_MS;
+  }
+};
+
+/**
+ * Plays translated signs back one at a time for the Keyboard screen.
+ * `index` is the position in `tokens` of the sign being shown.
+ */
+export const useSignPlayback = (tokens: SignToken[]) => {
+  const [index, setIndex] = useState<number>(0);
+  const [isPlaying, setIsPlaying] = useState<boolean>(false);
+  const [speed, setSpeed] = useState<number>(1);
+  const lastIndex = Math.max(tokens.length - 1, 0);
+
+  // New text starts from the beginning
+  useEffect(() => {
+    setIndex(0);
+    setIsPlaying(false);
+  }, [tokens]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    if (index >= lastIndex) {
+      setIsPlaying(false);
+      return;
+    }
+
+    const timer = setTimeout(
+      () => setIndex((i) => i + 1),
+      durationOf(tokens[index]) / speed
+    );
+
+    return () => clearTimeout(timer);
+  }, [isPlaying, index, lastIndex, speed, tokens]);
+
+  const play = useCallback(() => {
+    if (tokens.length === 0) return;
+    // Replay from the start once the end was reached
+    setIndex((i) => (i >= lastIndex ? 0 : i));
+    setIsPlaying(true);
+  }, [tokens, lastIndex]);
+
+  const pause = useCallback(() => {
+    setIsPlaying(false);
+  }, []);
+
+  const stepForward = useCallback(() => {
+    setIsPlaying(false);
+    setIndex((i) => Math.min(i + 1, lastIndex));
+  }, [lastIndex]);
+
+  const stepBack = useCallback(() => {
+    setIsPlaying(false);
+    setIndex((i) => Math.max(i - 1, 0));
+  }, []);
+
+  const cycleSpeed = useCallback(() => {
+    setSpeed(
+      (current) =>
+        PLAYBACK_SPEEDS[(PLAYBACK_SPEEDS.indexOf(current) + 1) % PLAYBACK_SPEEDS.length]
+    );
+  }, []);
+
+  return {
+    index,
+    isPlaying,
+    speed,
+    isAtEnd: index >= lastIndex,
+    play,
+    pause,
+    stepForward,
+    stepBack,
+    setSpeed,
+    cycleSpeed,
+  };
+};
@@ -0,0 +1,92 @@
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+  type ReactNode,
+} from 'react';
+import { AccessibilityInfo, useColorScheme } from 'react-native';
+import { THEMES, type ThemeColors, type ThemeName } from '../constant/colors';
+import ThemeService, { type ThemePreference } from '../services/ThemeService';
+
+interface ThemeContextValue {
+  // Theme in use, after resolving 'system'
+  name: ThemeName;
+  colors: ThemeColors;
+  preference: ThemePreference;
+  setPreference: (preference: ThemePreference) => void;
+}
+
+const ThemeContext = createContext<ThemeContextValue>({
+  name: 'light',
+  colors: THEMES.light,
+  preference: 'system',
+  setPreference: () => {},
+});
+
+/**
+ * Provides the active theme to every screen. Follows the device by default:
+ * its dark mode, and the high-contrast text (Android) or darker system
+ * colours (iOS) accessibility settings. A choice made in Settings overrides it.
+ */
+export const ThemeProvider = ({ children }: { children: ReactNode }) => {
+  const colorScheme = useColorScheme();
+  const [preference, setPreferenceState] = useState<ThemePreference>('system');
+  const [systemHighContrast, setSystemHighContrast] = useState(false);
+
+  useEffect(() => {
+    ThemeService.getPreference().then(setPreferenceState);
+  }, []);
+
+  // Each check resolves false on the platform that doesn't support it
+  useEffect(() => {
+    const update = async () => {
+      const [highTextContrast, darkerColors] = await Promise.all([
+        AccessibilityInfo.isHighTextContrastEnabled(),
+        AccessibilityInfo.isDarkerSystemColorsEnabled(),
+      ]);
+      setSystemHighContrast(highTextContrast || darkerColors);
+    };
+
+    update();
+    const subscriptions = [
+      AccessibilityInfo.addEventListener('highTextContrastChanged', update),
+      AccessibilityInfo.addEventListener('darkerSystemColorsChanged', update),
+    ];
+
+    return () => subscriptions.forEach((subscription) => subscription.remove());
+  }, []);
+
+  const setPreference = useCallback((next: ThemePreference) => {
+    setPreferenceState(next);
+    ThemeService.setPreference(next);
+  }, []);
+
+  const name: ThemeName =
+    preference !== 'system'
+      ? preference
+      : systemHighContrast
+      ? 'highContrast'
+      : colorScheme === 'dark'
+      ? 'dark'
+      : 'light';
+
+  const value = useMemo(
+    () => ({ name, colors: THEMES[name], preference, setPreference }),
+    [name, preference, setPreference]
+  );
+
+  return <ThemeContext.Provider value={value}>{children}</ThemeContext.Provider>;
+};
+
+export const useTheme = () => useContext(ThemeContext);
+
+/**
+ * StyleSheet built from the active theme, rebuilt only when the theme changes
+ */
+export const useThemedStyles = <T,>(createStyles: (theme: ThemeColors) => T): T => {
+  const { colors } = useTheme();
+  return useMemo(() => createStyles(colors), [createStyles, colors]);
+};
@@ -0,0 +1,116 @@
+import { DemoSequenceData, type DemoSequence } from '@/data/demoSequences';
+import type { EngineType, PredictionResult, RecognitionEngine } from './RecognitionEngine';
+import StorageService from './StorageService';
+import { LETTER_LABELS } from './ModelManifest';
+
+const DEMO_SEQUENCE_KEY = 'demoSequence';
+
+// Each letter is held long enough to pass the stability filter, followed by
+// a few empty frames as if the hand was lowered between letters
+const FRAMES_PER_LETTER = 12;
+const GAP_FRAMES = 4;
+const DEMO_CONFIDENCE = 0.95;
+
+/**
+ * Deterministic engine for demos and UI testing: replays a scripted letter
+ * sequence frame by frame instead of looking at the camera
+ */
+class DemoEngine implements RecognitionEngine {
+  readonly type: EngineType = 'demo';
+  private sequence: DemoSequence | null = null;
+  private frames: (PredictionResult | null)[] = [];
+  private frameIndex: number = 0;
+  private isInitialized: boolean = false;
+
+  /**
+   * Id of the sequence selected in Settings, or null if demo mode is off
+   */
+  async getSelectedSequence(): Promise<string | null> {
+    return StorageService.getItem('settings', DEMO_SEQUENCE_KEY);
+  }
+
+  async setSelectedSequence(id: string | null): Promise<void> {
+    if (id === null) {
+      await StorageService.removeItem('settings', DEMO_SEQUENCE_KEY);
+    } else {
+      await StorageService.setItem('settings', DEMO_SEQUENCE_KEY, id);
+    }
+  }
+
+  async initialize(): Promise<void> {
+    const id = await this.getSelectedSequence();
+    this.sequence = DemoSequenceData.find((sequence) => sequence.id === id) ?? null;
+    this.frames = this.sequence ? this.buildFrames(this.sequence.letters) : [];
+    this.frameIndex = 0;
+    this.isInitialized = true;
+  }
+
+  async predict(
+    imageData: Uint8Array,
+    width: number,
+    height: number
+  ): Promise<PredictionResult | null> {
+    if (!this.isInitialized) {
+      throw new Error('Demo engine not initialized. Call initialize() first.');
+    }
+
+    if (this.frames.length === 0) {
+      return null;
+    }
+
+    // Loop the script so the demo keeps running
+    const frame = this.frames[this.frameIndex];
+    this.frameIndex = (this.frameIndex + 1) % this.frames.length;
+    return frame;
+  }
+
+  /**
+   * Title of the sequence being replayed
+   */
+  getSequenceTitle(): string | null {
+    return this.sequence?.title ?? null;
+  }
+
+  /**
+   * Expand a letter string into per-frame predictions
+   */
+  private buildFrames(letters: string): (PredictionResult | null)[] {
+    const frames: (PredictionResult | null)[] = [];
+
+    for (const letter of letters.toUpperCase()) {
+      const index = LETTER_LABELS.indexOf(letter);
+      if (index === -1) continue;
+
+      for (let i = 0; i < FRAMES_PER_LETTER; i++) {
+        frames.push({
+          letter,
+          confidence: DEMO_CONFIDENCE,
+          index,
+          topK: [{ letter, probability: DEMO_CONFIDENCE }],
+        });
+      }
+      for (let i = 0; i < GAP_FRAMES; i++) {
+        frames.push(null);
+      }
+    }
+
+    return frames;
+  }
+
+  isReady(): boolean {
+    return this.isInitialized;
+  }
+
+  isAvailable(): boolean {
+    return this.isInitialized && this.sequence !== null;
+  }
+
+  dispose(): void {
+    this.isInitialized = false;
+    this.sequence = null;
+    this.frames = [];
+    this.frameIndex = 0;
+  }
+}
+
+export default new DemoEngine();
@@ -0,0 +1,128 @@
+import type { CameraView } from 'expo-camera';
+import { File } from 'expo-file-system';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import * as jpeg from 'jpeg-js';
+
+// Frames are downscaled before decoding; the model only needs 28x28 anyway
+export const FRAME_WIDTH = 320;
+export const FRAME_QUALITY = 0.5;
+
+export interface FrameRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CapturedFrame {
+  data: Uint8Array; // RGBA, 4 bytes per pixel
+  width: number;
+  height: number;
+  // JPEG the pixels were decoded from, so uploads can be encoded natively
+  uri?: string;
+  // Pixel region of `uri` covered by this frame, when it was cropped
+  region?: FrameRegion;
+}
+
+/**
+ * Delete an image the camera or image manipulator wrote to the cache
+ */
+export function deleteCachedImage(uri: string | undefined): void {
+  if (!uri) return;
+
+  try {
+    const file = new File(uri);
+    if (file.exists) file.delete();
+  } catch (error) {
+    console.warn('Error deleting cached image:', error);
+  }
+}
+
+class FrameCaptureService {
+  private isCapturing: boolean = false;
+
+  /**
+   * Grab a still frame from the camera and decode it to raw RGBA pixels
+   * in the shape expected by `predict(imageData, width, height)`.
+   * Returns null if a capture is already in flight or the camera is not ready.
+   */
+  async captureFrame(camera: CameraView | null): Promise<CapturedFrame | null> {
+    if (!camera || this.isCapturing) {
+      return null;
+    }
+
+    this.isCapturing = true;
+    let pictureUri: string | undefined;
+
+    try {
+      const picture = await camera.takePictureAsync({
+        quality: FRAME_QUALITY,
+        skipProcessing: true,
+        shutterSound: false,
+      });
+
+      if (!picture?.uri) {
+        return null;
+      }
+      pictureUri = picture.uri;
+
+      // Downscale and re-encode as JPEG so decoding stays cheap on the JS thread
+      const context = ImageManipulator.manipulate(picture.uri);
+      context.resize({ width: FRAME_WIDTH });
+      const image = await context.renderAsync();
+      const result = await image.saveAsync({
+        base64: true,
+        compress: FRAME_QUALITY,
+        format: SaveFormat.JPEG,
+      });
+
+      if (!result.base64) {
+        deleteCachedImage(result.uri);
+        return null;
+      }
+
+      const decoded = jpeg.decode(this.base64ToBytes(result.base64), {
+        useTArray: true,
+        formatAsRGBA: true,
+      });
+
+      return {
+        data: decoded.data,
+        width: decoded.width,
+        height: decoded.height,
+        uri: result.uri,
+      };
+    } catch (error) {
+      console.error('Error capturing frame:', error);
+      return null;
+    } finally {
+      // Only the downscaled copy is kept, until the frame is released
+      deleteCachedImage(pictureUri);
+      this.isCapturing = false;
+    }
+  }
+
+  /**
+   * Delete the image a captured frame was decoded from. Call once the frame
+   * has been classified or uploaded.
+   */
+  releaseFrame(frame: CapturedFrame): void {
+    deleteCachedImage(frame.uri);
+  }
+
+  /**
+   * Convert base64 string to Uint8Array
+   */
+  private base64ToBytes(base64: string): Uint8Array {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+
+    return bytes;
+  }
+}
+
+export default new FrameCaptureService();
@@ -0,0 +1,101 @@
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import { deleteCachedImage, type CapturedFrame } from './FrameCaptureService';
+
+// Longest side of an uploaded frame. The server model only needs 28x28, so
+// this keeps each upload to a few kilobytes
+export const UPLOAD_SIZE = 128;
+export const UPLOAD_QUALITY = 0.7;
+// Bytes converted per String.fromCharCode call when building base64
+const BASE64_CHUNK = 0x8000;
+
+// 'jpeg' for camera frames; 'rgba' for frames with no source image
+export type UploadFormat = 'jpeg' | 'rgba';
+
+/**
+ * One frame ready to send to the server, as in a /predict body
+ */
+export interface EncodedFrame {
+  image: string; // base64
+  width: number;
+  height: number;
+  format: UploadFormat;
+}
+
+/**
+ * Downscale a frame and encode it for upload. Camera frames are cropped,
+ * resized and JPEG-encoded natively from their source image, off the JS
+ * thread; anything else is downscaled here and sent as raw RGBA.
+ */
+export async function encodeFrame(frame: CapturedFrame): Promise<EncodedFrame> {
+  if (frame.uri) {
+    try {
+      return await encodeJpeg(frame, frame.uri);
+    } catch (error) {
+      console.warn('JPEG encoding failed, uploading raw pixels:', error);
+    }
+  }
+
+  return encodeRgba(frame);
+}
+
+const encodeJpeg = async (frame: CapturedFrame, uri: string): Promise<EncodedFrame> => {
+  const scale = Math.min(1, UPLOAD_SIZE / Math.max(frame.width, frame.height));
+
+  const context = ImageManipulator.manipulate(uri);
+  if (frame.region) {
+    context.crop({
+      originX: frame.region.x,
+      originY: frame.region.y,
+      width: frame.region.width,
+      height: frame.region.height,
+    });
+  }
+  context.resize({ width: Math.max(1, Math.round(frame.width * scale)) });
+
+  const image = await context.renderAsync();
+  const result = await image.saveAsync({
+    base64: true,
+    compress: UPLOAD_QUALITY,
+    format: SaveFormat.JPEG,
+  });
+  // The upload is sent as base64, the file is not needed
+  deleteCachedImage(result.uri);
+
+  if (!result.base64) {
+    throw new Error('Image manipulator returned no data');
+  }
+
+  return { image: result.base64, width: result.width, height: result.height, format: 'jpeg' };
+};
+
+/**
+ * Nearest-neighbour downscale to UPLOAD_SIZE, then base64 of the RGBA bytes
+ */
+const encodeRgba = (frame: CapturedFrame): EncodedFrame => {
+  const scale = Math.min(1, UPLOAD_SIZE / Math.max(frame.width, frame.height, 1));
+  const width = Math.max(1, Math.round(frame.width * scale));
+  const height = Math.max(1, Math.round(frame.height * scale));
+
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const sy = Math.min(frame.height - 1, Math.floor(y / scale));
+    for (let x = 0; x < width; x++) {
+      const sx = Math.min(frame.width - 1, Math.floor(x / scale));
+      const from = (sy * frame.width + sx) * 4;
+      data.set(frame.data.subarray(from, from + 4), (y * width + x) * 4);
+    }
+  }
+
+  return { image: bytesToBase64(data), width, height, format: 'rgba' };
+};
+
+/**
+ * Base64 of a byte array, converting a chunk at a time instead of per byte
+ */
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += BASE64_CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + BASE64_CHUNK));
+  }
+  return btoa(binary);
+};
@@ -0,0 +1,227 @@
+import type { CapturedFrame } from './FrameCaptureService';
+import type { TrackPoint } from './MotionTracker';
+
+// Skin is searched on a coarse grid, like MotionTracker, to keep the per-frame
+// cost on the JS thread small
+const GRID_WIDTH = 64;
+const GRID_HEIGHT = 48;
+// Skin chroma range in YCbCr (Chai & Ngan), which holds across skin tones
+// and most indoor lighting
+const SKIN_CB = [77, 127];
+const SKIN_CR = [133, 173];
+// A region smaller than this is noise; larger is probably a skin-toned wall
+const MIN_REGION_FRACTION = 0.01;
+const MAX_REGION_FRACTION = 0.6;
+// Weight of the new box when smoothing between frames (1 = no smoothing)
+const SMOOTHING = 0.6;
+// Margin added around the hand before cropping, as a fraction of its size
+export const CROP_PADDING = 0.2;
+
+export interface HandBox {
+  // Normalized 0-1 image coordinates of the top-left corner and size
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Finds the signing hand among the skin-coloured regions in the frame.
+ * When the motion tracker has a point, the region nearest to it wins, so a
+ * still face in the background is not picked over the moving hand. A hand
+ * held still gives no point, so the region where the hand was last found is
+ * followed instead; the largest region is only a first guess.
+ */
+export class HandDetector {
+  private previous: HandBox | null = null;
+
+  detect(frame: CapturedFrame, hint: TrackPoint | null = null): HandBox | null {
+    if (frame.width === 0 || frame.height === 0) {
+      return null;
+    }
+
+    const regions = this.findSkinRegions(frame);
+    if (regions.length === 0) {
+      this.previous = null;
+      return null;
+    }
+
+    const previous = this.previous;
+    const region = hint
+      ? nearestTo(regions, hint)
+      : previous
+      ? followBox(regions, previous)
+      : regions[0];
+
+    // Smooth only while following the same region; a jump to another
+    // region would otherwise leave the box between the two
+    const box = previous && overlapArea(previous, region) > 0 ? blend(previous, region) : region;
+    this.previous = box;
+    return box;
+  }
+
+  reset(): void {
+    this.previous = null;
+  }
+
+  /**
+   * Bounding boxes of connected skin regions, largest first
+   */
+  private findSkinRegions(frame: CapturedFrame): HandBox[] {
+    const cells = GRID_WIDTH * GRID_HEIGHT;
+    const mask = new Uint8Array(cells);
+
+    for (let gy = 0; gy < GRID_HEIGHT; gy++) {
+      const y = Math.floor(((gy + 0.5) * frame.height) / GRID_HEIGHT);
+      for (let gx = 0; gx < GRID_WIDTH; gx++) {
+        const x = Math.floor(((gx + 0.5) * frame.width) / GRID_WIDTH);
+        const p = (y * frame.width + x) * 4;
+        mask[gy * GRID_WIDTH + gx] = isSkin(frame.data[p], frame.data[p + 1], frame.data[p + 2])
+          ? 1
+          : 0;
+      }
+    }
+
+    const regions: { box: HandBox; size: number }[] = [];
+    const stack: number[] = [];
+
+    for (let start = 0; start < cells; start++) {
+      if (mask[start] !== 1) continue;
+
+      // Flood fill one 4-connected region, marking visited cells as 2
+      let size = 0;
+      let minX = GRID_WIDTH;
+      let minY = GRID_HEIGHT;
+      let maxX = 0;
+      let maxY = 0;
+      mask[start] = 2;
+      stack.push(start);
+
+      while (stack.length > 0) {
+        const i = stack.pop()!;
+        const x = i % GRID_WIDTH;
+        const y = (i - x) / GRID_WIDTH;
+        size++;
+        minX = Math.min(minX, x);
+        minY = Math.min(minY, y);
+        maxX = Math.max(maxX, x);
+        maxY = Math.max(maxY, y);
+
+        const neighbours = [
+          x > 0 ? i - 1 : -1,
+          x < GRID_WIDTH - 1 ? i + 1 : -1,
+          y > 0 ? i - GRID_WIDTH : -1,
+          y < GRID_HEIGHT - 1 ? i + GRID_WIDTH : -1,
+        ];
+        for (const n of neighbours) {
+          if (n >= 0 && mask[n] === 1) {
+            mask[n] = 2;
+            stack.push(n);
+          }
+        }
+      }
+
+      if (size < cells * MIN_REGION_FRACTION || size > cells * MAX_REGION_FRACTION) {
+        continue;
+      }
+
+      regions.push({
+        size,
+        box: {
+          x: minX / GRID_WIDTH,
+          y: minY / GRID_HEIGHT,
+          width: (maxX - minX + 1) / GRID_WIDTH,
+          height: (maxY - minY + 1) / GRID_HEIGHT,
+        },
+      });
+    }
+
+    return regions.sort((a, b) => b.size - a.size).map(({ box }) => box);
+  }
+}
+
+/**
+ * Square crop centred on the hand, with padding, clamped to the frame.
+ * This keeps the hand filling the model input instead of the background.
+ */
+export function cropToHand(
+  frame: CapturedFrame,
+  box: HandBox,
+  padding: number = CROP_PADDING
+): CapturedFrame {
+  const centerX = (box.x + box.width / 2) * frame.width;
+  const centerY = (box.y + box.height / 2) * frame.height;
+  const side = Math.min(
+    Math.max(box.width * frame.width, box.height * frame.height) * (1 + 2 * padding),
+    frame.width,
+    frame.height
+  );
+
+  const size = Math.max(1, Math.round(side));
+  const left = Math.round(clamp(centerX - side / 2, 0, frame.width - size));
+  const top = Math.round(clamp(centerY - side / 2, 0, frame.height - size));
+
+  const data = new Uint8Array(size * size * 4);
+  for (let row = 0; row < size; row++) {
+    const from = ((top + row) * frame.width + left) * 4;
+    data.set(frame.data.subarray(from, from + size * 4), row * size * 4);
+  }
+
+  // Offset by any earlier crop so the region still refers to the source JPEG
+  return {
+    data,
+    width: size,
+    height: size,
+    uri: frame.uri,
+    region: {
+      x: (frame.region?.x ?? 0) + left,
+      y: (frame.region?.y ?? 0) + top,
+      width: size,
+      height: size,
+    },
+  };
+}
+
+const isSkin = (r: number, g: number, b: number): boolean => {
+  const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+  const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+  return cb >= SKIN_CB[0] && cb <= SKIN_CB[1] && cr >= SKIN_CR[0] && cr <= SKIN_CR[1];
+};
+
+const distanceTo = (box: HandBox, point: TrackPoint): number =>
+  Math.hypot(box.x + box.width / 2 - point.x, box.y + box.height / 2 - point.y);
+
+const centerOf = (box: HandBox): TrackPoint => ({
+  x: box.x + box.width / 2,
+  y: box.y + box.height / 2,
+});
+
+const nearestTo = (regions: HandBox[], point: TrackPoint): HandBox =>
+  regions.reduce((best, r) => (distanceTo(r, point) < distanceTo(best, point) ? r : best));
+
+const overlapArea = (a: HandBox, b: HandBox): number =>
+  Math.max(0, Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x)) *
+  Math.max(0, Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y));
+
+/**
+ * Region that overlaps the previous box the most, or the nearest one if
+ * none overlaps it
+ */
+const followBox = (regions: HandBox[], previous: HandBox): HandBox => {
+  const overlapping = regions.filter((r) => overlapArea(r, previous) > 0);
+  return overlapping.length > 0
+    ? overlapping.reduce((best, r) =>
+        overlapArea(r, previous) > overlapArea(best, previous) ? r : best
+      )
+    : nearestTo(regions, centerOf(previous));
+};
+
+const blend = (previous: HandBox, next: HandBox): HandBox => ({
+  x: previous.x + (next.x - previous.x) * SMOOTHING,
+  y: previous.y + (next.y - previous.y) * SMOOTHING,
+  width: previous.width + (next.width - previous.width) * SMOOTHING,
+  height: previous.height + (next.height - previous.height) * SMOOTHING,
+});
+
+const clamp = (value: number, min: number, max: number): number =>
+  Math.min(Math.max(value, min), max);
@@ -0,0 +1,96 @@
+import StorageService from './StorageService';
+
+const TRANSCRIPTS_KEY = 'transcripts';
+// Oldest transcripts are dropped past this, to keep the stored list small
+const MAX_TRANSCRIPTS = 200;
+
+export type TranscriptMode = 'camera' | 'keyboard';
+
+export interface Transcript {
+  id: string;
+  // Screen the transcript was made on: signed (camera) or typed (keyboard)
+  mode: TranscriptMode;
+  createdAt: number;
+  updatedAt: number;
+  text: string;
+}
+
+/**
+ * Saved translations from the Camera and Keyboard screens, newest first
+ */
+class HistoryService {
+  async list(): Promise<Transcript[]> {
+    const transcripts = await StorageService.getJSON<Transcript[]>(
+      'history',
+      TRANSCRIPTS_KEY,
+      []
+    );
+    return transcripts.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  /**
+   * Transcripts whose text contains the query, ignoring case
+   */
+  async search(query: string): Promise<Transcript[]> {
+    const transcripts = await this.list();
+    const needle = query.trim().toLowerCase();
+    if (!needle) return transcripts;
+
+    return transcripts.filter((transcript) =>
+      transcript.text.toLowerCase().includes(needle)
+    );
+  }
+
+  async get(id: string): Promise<Transcript | null> {
+    const transcripts = await this.list();
+    return transcripts.find((transcript) => transcript.id === id) ?? null;
+  }
+
+  /**
+   * Create a transcript, or update the text of an existing one if `id` is given.
+   * Returns the saved transcript.
+   */
+  async save(entry: { id?: string; mode: TranscriptMode; text: string }): Promise<Transcript> {
+    const transcripts = await this.list();
+    const now = Date.now();
+    const existing = entry.id
+      ? transcripts.find((transcript) => transcript.id === entry.id)
+      : undefined;
+
+    const transcript: Transcript = existing
+      ? { ...existing, text: entry.text, updatedAt: now }
+      : {
+          id: entry.id ?? createTranscriptId(),
+          mode: entry.mode,
+          createdAt: now,
+          updatedAt: now,
+          text: entry.text,
+        };
+
+    const others = transcripts.filter((item) => item.id !== transcript.id);
+    await this.write([transcript, ...others]);
+    return transcript;
+  }
+
+  async remove(id: string): Promise<void> {
+    const transcripts = await this.list();
+    await this.write(transcripts.filter((transcript) => transcript.id !== id));
+  }
+
+  /**
+   * Delete all transcripts. Settings and onboarding state are kept.
+   */
+  async clear(): Promise<void> {
+    await StorageService.clearNamespace('history');
+  }
+
+  private async write(transcripts: Transcript[]): Promise<void> {
+    await StorageService.setJSON('history', TRANSCRIPTS_KEY, transcripts.slice(0, MAX_TRANSCRIPTS));
+  }
+}
+
+export function createTranscriptId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export default new HistoryService();
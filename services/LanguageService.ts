@@ -0,0 +1,27 @@
+import type { AppLanguage } from '@/constant/strings';
+import StorageService from './StorageService';
+
+const LANGUAGE_KEY = 'language';
+
+// 'system' follows the device language
+export type LanguagePreference = 'system' | AppLanguage;
+
+const PREFERENCES: LanguagePreference[] = ['system', 'en', 'fil'];
+
+/**
+ * Remembers the app language chosen in Settings
+ */
+class LanguageService {
+  async getPreference(): Promise<LanguagePreference> {
+    const saved = await StorageService.getItem('settings', LANGUAGE_KEY);
+    return PREFERENCES.includes(saved as LanguagePreference)
+      ? (saved as LanguagePreference)
+      : 'system';
+  }
+
+  async setPreference(preference: LanguagePreference): Promise<void> {
+    await StorageService.setItem('settings', LANGUAGE_KEY, preference);
+  }
+}
+
+export default new LanguageService();
@@ -0,0 +1,142 @@
+import type { PredictionResult } from './RecognitionEngine';
+import { CONFIDENCE_THRESHOLD, STABILITY_FRAMES } from './ModelManifest';
+
+export interface StabilizerConfig {
+  // Minimum confidence for a frame to count as a vote
+  confidenceThreshold: number;
+  // Number of recent frames that vote
+  windowSize: number;
+  // Votes a letter needs within the window to be confirmed
+  minVotes: number;
+  // Hysteresis: a confirmed letter stays held until its votes drop below this
+  releaseVotes: number;
+  // Consecutive empty frames that mean the hand was lowered (neutral)
+  neutralFrames: number;
+}
+
+export const DEFAULT_STABILIZER_CONFIG: StabilizerConfig = {
+  confidenceThreshold: CONFIDENCE_THRESHOLD,
+  windowSize: STABILITY_FRAMES,
+  minVotes: 8,
+  releaseVotes: 3,
+  neutralFrames: 3,
+};
+
+/**
+ * Turns a noisy stream of per-frame predictions into confirmed letters.
+ *
+ * A letter is confirmed once it wins a majority vote over the recent window.
+ * It is then held (not confirmed again) until the hand changes sign or is
+ * released to neutral, so repeated letters like the "LL" in "HELLO" are
+ * spelled by signing the letter, lowering the hand, and signing it again.
+ */
+export class LetterStabilizer {
+  private config: StabilizerConfig;
+  private window: (string | null)[] = [];
+  private heldLetter: string | null = null;
+  private emptyFrames: number = 0;
+
+  constructor(config: Partial<StabilizerConfig> = {}) {
+    this.config = { ...DEFAULT_STABILIZER_CONFIG, ...config };
+  }
+
+  /**
+   * Add one frame's prediction (null if nothing was detected).
+   * Returns the letter if this frame confirmed it, otherwise null.
+   */
+  push(prediction: PredictionResult | null): string | null {
+    const { confidenceThreshold, windowSize, minVotes, releaseVotes, neutralFrames } =
+      this.config;
+
+    const vote =
+      prediction && prediction.confidence > confidenceThreshold
+        ? prediction.letter
+        : null;
+
+    // Hand released: forget everything so the same letter can follow
+    this.emptyFrames = vote === null ? this.emptyFrames + 1 : 0;
+    if (this.emptyFrames >= neutralFrames) {
+      this.window = [];
+      this.heldLetter = null;
+      return null;
+    }
+
+    this.window.push(vote);
+    if (this.window.length > windowSize) {
+      this.window.shift();
+    }
+
+    if (this.heldLetter !== null) {
+      if (this.countVotes(this.heldLetter) >= releaseVotes) {
+        return null;
+      }
+      this.heldLetter = null;
+    }
+
+    const leader = this.getLeader();
+    if (leader && this.countVotes(leader) >= minVotes) {
+      this.heldLetter = leader;
+      return leader;
+    }
+
+    return null;
+  }
+
+  getWindowSize(): number {
+    return this.config.windowSize;
+  }
+
+  /**
+   * Letter currently confirmed and held, if any
+   */
+  getHeldLetter(): string | null {
+    return this.heldLetter;
+  }
+
+  /**
+   * Treat the letter as already confirmed and held, e.g. the handshape a
+   * motion letter ended on, so it is not confirmed again on its own
+   */
+  hold(letter: string): void {
+    this.window = new Array(this.config.windowSize).fill(letter);
+    this.heldLetter = letter;
+    this.emptyFrames = 0;
+  }
+
+  setConfig(config: Partial<StabilizerConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  reset(): void {
+    this.window = [];
+    this.heldLetter = null;
+    this.emptyFrames = 0;
+  }
+
+  private countVotes(letter: string): number {
+    return this.window.filter((vote) => vote === letter).length;
+  }
+
+  /**
+   * Letter with the most votes in the window
+   */
+  private getLeader(): string | null {
+    const counts = new Map<string, number>();
+    let leader: string | null = null;
+    let leaderVotes = 0;
+
+    for (const vote of this.window) {
+      if (vote === null) continue;
+
+      const votes = (counts.get(vote) ?? 0) + 1;
+      counts.set(vote, votes);
+
+      if (votes > leaderVotes) {
+        leader = vote;
+        leaderVotes = votes;
+      }
+    }
+
+    return leader;
+  }
+}
@@ -0,0 +1,80 @@
+import manifest from '../app/model/manifest.json';
+
+/**
+ * Describes the trained model: shipped in app/model/manifest.json next to the
+ * model files and read by the app and backend/server.py, so retraining with a
+ * different class set only means replacing the model and its manifest.
+ */
+export interface ModelManifest {
+  version: string;
+  // Class labels in model output order
+  labels: string[];
+  // [height, width, channels]; 1 channel means grayscale
+  inputShape: [number, number, number];
+  // Pixels are fed to the model as (value - mean) / std
+  normalization: { mean: number; std: number };
+  // Tuned for this model's calibration
+  confidenceThreshold: number;
+  stabilityFrames: number;
+}
+
+export const MODEL_MANIFEST = manifest as ModelManifest;
+
+export const LETTER_LABELS = MODEL_MANIFEST.labels;
+export const CONFIDENCE_THRESHOLD = MODEL_MANIFEST.confidenceThreshold;
+export const STABILITY_FRAMES = MODEL_MANIFEST.stabilityFrames;
+
+/**
+ * How a server's model differs from the bundled one. `labels` means it
+ * classifies a different set of letters; `version` means the same letters
+ * from a different training run.
+ */
+export interface ModelMismatch {
+  kind: 'labels' | 'version';
+  serverVersion?: string;
+  serverLabels?: string[];
+  appVersion: string;
+}
+
+/**
+ * Compare the model a server reports from /health with the bundled manifest.
+ * Returns the mismatch, or null if they agree (or the server is too old to
+ * report its model).
+ */
+export function checkServerModel(server: {
+  modelVersion?: string;
+  labels?: string[];
+}): ModelMismatch | null {
+  if (server.labels && server.labels.join(',') !== LETTER_LABELS.join(',')) {
+    return {
+      kind: 'labels',
+      serverVersion: server.modelVersion,
+      serverLabels: server.labels,
+      appVersion: MODEL_MANIFEST.version,
+    };
+  }
+
+  if (server.modelVersion && server.modelVersion !== MODEL_MANIFEST.version) {
+    return { kind: 'version', serverVersion: server.modelVersion, appVersion: MODEL_MANIFEST.version };
+  }
+
+  return null;
+}
+
+/**
+ * English description of a mismatch, for logs
+ */
+export function describeModelMismatch(mismatch: ModelMismatch): string {
+  if (mismatch.kind === 'labels') {
+    return (
+      `Model mismatch: server labels [${mismatch.serverLabels?.join(' ')}] ` +
+      `(version ${mismatch.serverVersion ?? 'unknown'}), ` +
+      `app expects [${LETTER_LABELS.join(' ')}] (version ${mismatch.appVersion})`
+    );
+  }
+
+  return (
+    `Model version mismatch: server has ${mismatch.serverVersion}, ` +
+    `app expects ${mismatch.appVersion}`
+  );
+}
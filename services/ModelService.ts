@@ -1,25 +1,60 @@
-import * as tf from '@tensorflow/tfjs';
-import { bundleResourceIO } from '@tensorflow/tfjs-react-native';
+import type * as tfjs from '@tensorflow/tfjs';
+import {
+  toPrediction,
+  type EngineType,
+  type PredictionResult,
+  type RecognitionEngine,
+} from './RecognitionEngine';
+import type { CapturedFrame } from './FrameCaptureService';
+import { LETTER_LABELS, MODEL_MANIFEST } from './ModelManifest';
 
-// Labels matching your Python implementation
-export const LETTER_LABELS = [
-  'A', 'B', 'C', 'D', 'E', 'F', 'G', 'H', 'I', 'K', 'L', 'M',
-  'N', 'O', 'P', 'Q', 'R', 'S', 'T', 'U', 'V', 'W', 'X', 'Y'
-];
+// tfjs is an optional dependency: it is required lazily in initialize() so the
+// app still bundles without it and the recognition selector can fall back
+let tf: typeof tfjs;
 
-export const CONFIDENCE_THRESHOLD = 0.85;
-export const STABILITY_FRAMES = 10;
+export const BENCHMARK_FRAMES = 30;
 
-class ModelService {
-  private model: tf.GraphModel | null = null;
+export type BenchmarkStage = 'preprocess' | 'inference' | 'postprocess';
+
+export interface StageTiming {
+  meanMs: number;
+  p95Ms: number;
+}
+
+export interface BenchmarkReport {
+  frames: number;
+  // tfjs backend the model ran on, e.g. rn-webgl or cpu
+  backend: string;
+  stages: Record<BenchmarkStage, StageTiming>;
+  // Live tensors before and after the run; any difference is a leak
+  tensorsBefore: number;
+  tensorsAfter: number;
+  leakedTensors: number;
+}
+
+class ModelService implements RecognitionEngine {
+  readonly type: EngineType = 'on-device';
+  private model: tfjs.GraphModel | null = null;
   private isInitialized: boolean = false;
+  // Model input, reused across frames
+  private inputBuffer: Float32Array | null = null;
+  // Why the model could not be loaded; a build without tfjs or the model
+  // files fails the same way every time, so the load is not retried
+  private loadError: Error | null = null;
 
   async initialize(): Promise<void> {
+    if (this.loadError) {
+      throw this.loadError;
+    }
+
     try {
       if (this.isInitialized) {
         return;
       }
 
+      tf = require('@tensorflow/tfjs');
+      const { bundleResourceIO } = require('@tensorflow/tfjs-react-native');
+
       // Wait for TensorFlow to be ready
       await tf.ready();
 
@@ -31,69 +66,171 @@ class ModelService {
         bundleResourceIO(modelJson, modelWeights)
       );
 
+      // A retrained model needs its manifest updated with it
+      const outputClasses = this.model.outputs[0]?.shape?.slice(-1)[0];
+      if (outputClasses && outputClasses !== LETTER_LABELS.length) {
+        this.model.dispose();
+        this.model = null;
+        throw new Error(
+          `Model has ${outputClasses} outputs but manifest.json lists ` +
+            `${LETTER_LABELS.length} labels (version ${MODEL_MANIFEST.version})`
+        );
+      }
+
       this.isInitialized = true;
-      console.log('Model loaded successfully');
+      console.log(`Model ${MODEL_MANIFEST.version} loaded successfully`);
     } catch (error) {
-      console.error('Error loading model:', error);
-      throw error;
+      // Reported by the caller; RecognitionService logs it once and skips
+      // the engine afterwards
+      this.loadError = error instanceof Error ? error : new Error(String(error));
+      throw this.loadError;
     }
   }
 
-  async predict(imageData: Uint8Array, width: number, height: number): Promise<{
-    letter: string;
-    confidence: number;
-    index: number;
-  } | null> {
+  loadFailed(): boolean {
+    return this.loadError !== null;
+  }
+
+  async predict(
+    imageData: Uint8Array,
+    width: number,
+    height: number
+  ): Promise<PredictionResult | null> {
     if (!this.model || !this.isInitialized) {
       throw new Error('Model not initialized. Call initialize() first.');
     }
 
     try {
-      // Convert image data to tensor
-      const tensor = tf.tensor3d(imageData, [height, width, 4]);
+      const input = this.preprocess(imageData, width, height);
+      const probabilities = await this.infer(input);
+
+      // Rank the classes by probability
+      return toPrediction(probabilities, LETTER_LABELS);
+    } catch (error) {
+      console.error('Error during prediction:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Time each stage of `predict` over a number of frames and check that no
+   * tensors are left behind. Uses a synthetic noise frame if none is given.
+   */
+  async benchmark(
+    frameCount: number = BENCHMARK_FRAMES,
+    frame: CapturedFrame = createNoiseFrame()
+  ): Promise<BenchmarkReport> {
+    if (!this.model || !this.isInitialized) {
+      throw new Error('Model not initialized. Call initialize() first.');
+    }
+
+    const timings: Record<BenchmarkStage, number[]> = {
+      preprocess: [],
+      inference: [],
+      postprocess: [],
+    };
 
-      // Convert RGBA to grayscale
-      const grayscale = tf.image.rgbToGrayscale(tensor.slice([0, 0, 0], [-1, -1, 3]));
+    // First run compiles the graph and is not representative
+    await this.infer(this.preprocess(frame.data, frame.width, frame.height));
+    const tensorsBefore = tf.memory().numTensors;
 
-      // Resize to 28x28 (model input size)
-      const resized = tf.image.resizeBilinear(grayscale, [28, 28]);
+    for (let i = 0; i < frameCount; i++) {
+      const t0 = performance.now();
+      const input = this.preprocess(frame.data, frame.width, frame.height);
+      const t1 = performance.now();
+      const probabilities = await this.infer(input);
+      const t2 = performance.now();
+      toPrediction(probabilities, LETTER_LABELS);
+      const t3 = performance.now();
 
-      // Normalize pixel values to 0-1 range
-      const normalized = resized.div(255.0);
+      timings.preprocess.push(t1 - t0);
+      timings.inference.push(t2 - t1);
+      timings.postprocess.push(t3 - t2);
+    }
+
+    const tensorsAfter = tf.memory().numTensors;
+
+    return {
+      frames: frameCount,
+      backend: tf.getBackend(),
+      stages: {
+        preprocess: summarize(timings.preprocess),
+        inference: summarize(timings.inference),
+        postprocess: summarize(timings.postprocess),
+      },
+      tensorsBefore,
+      tensorsAfter,
+      leakedTensors: tensorsAfter - tensorsBefore,
+    };
+  }
+
+  /**
+   * RGBA frame to the model input: channel conversion, bilinear resize and
+   * normalization in one pass, written into a buffer reused across frames
+   */
+  private preprocess(imageData: Uint8Array, width: number, height: number): Float32Array {
+    // Input shape and normalization come from the model manifest
+    const [inputHeight, inputWidth, channels] = MODEL_MANIFEST.inputShape;
+    const { mean, std } = MODEL_MANIFEST.normalization;
+
+    const size = inputHeight * inputWidth * channels;
+    if (this.inputBuffer?.length !== size) {
+      this.inputBuffer = new Float32Array(size);
+    }
+    const input = this.inputBuffer;
+
+    const scaleY = height / inputHeight;
+    const scaleX = width / inputWidth;
+
+    // Same weights as tf.image.rgbToGrayscale
+    const pixel = (x: number, y: number, channel: number): number => {
+      const p = (y * width + x) * 4;
+      if (channels !== 1) return imageData[p + channel];
+      return imageData[p] * 0.2989 + imageData[p + 1] * 0.587 + imageData[p + 2] * 0.114;
+    };
 
-      // Add batch dimension and ensure correct shape [1, 28, 28, 1]
-      const input = normalized.expandDims(0);
+    let i = 0;
+    for (let oy = 0; oy < inputHeight; oy++) {
+      const sy = oy * scaleY;
+      const y0 = Math.floor(sy);
+      const y1 = Math.min(y0 + 1, height - 1);
+      const dy = sy - y0;
 
-      // Run prediction
-      const prediction = this.model.predict(input) as tf.Tensor;
-      const probabilities = await prediction.data();
+      for (let ox = 0; ox < inputWidth; ox++) {
+        const sx = ox * scaleX;
+        const x0 = Math.floor(sx);
+        const x1 = Math.min(x0 + 1, width - 1);
+        const dx = sx - x0;
 
-      // Find the class with highest probability
-      let maxProb = 0;
-      let maxIndex = 0;
-      for (let i = 0; i < probabilities.length; i++) {
-        if (probabilities[i] > maxProb) {
-          maxProb = probabilities[i];
-          maxIndex = i;
+        for (let c = 0; c < channels; c++) {
+          const top = pixel(x0, y0, c) * (1 - dx) + pixel(x1, y0, c) * dx;
+          const bottom = pixel(x0, y1, c) * (1 - dx) + pixel(x1, y1, c) * dx;
+          input[i++] = (top * (1 - dy) + bottom * dy - mean) / std;
         }
       }
+    }
 
-      // Cleanup tensors
-      tensor.dispose();
-      grayscale.dispose();
-      resized.dispose();
-      normalized.dispose();
-      input.dispose();
-      prediction.dispose();
-
-      return {
-        letter: LETTER_LABELS[maxIndex],
-        confidence: maxProb,
-        index: maxIndex,
-      };
-    } catch (error) {
-      console.error('Error during prediction:', error);
-      return null;
+    return input;
+  }
+
+  /**
+   * Run the model on a preprocessed input. Every tensor is released, even
+   * if inference throws.
+   */
+  private async infer(input: Float32Array): Promise<Float32Array> {
+    const [inputHeight, inputWidth, channels] = MODEL_MANIFEST.inputShape;
+
+    const output = tf.tidy(
+      () =>
+        this.model!.predict(
+          tf.tensor4d(input, [1, inputHeight, inputWidth, channels])
+        ) as tfjs.Tensor
+    );
+
+    try {
+      return (await output.data()) as Float32Array;
+    } finally {
+      output.dispose();
     }
   }
 
@@ -101,6 +238,10 @@ class ModelService {
     return this.isInitialized;
   }
 
+  isAvailable(): boolean {
+    return this.isInitialized && this.model !== null;
+  }
+
   dispose(): void {
     if (this.model) {
       this.model.dispose();
@@ -110,4 +251,23 @@ class ModelService {
   }
 }
 
+const summarize = (samples: number[]): StageTiming => {
+  const sorted = [...samples].sort((a, b) => a - b);
+  return {
+    meanMs: sorted.reduce((sum, ms) => sum + ms, 0) / Math.max(sorted.length, 1),
+    p95Ms: sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))] ?? 0,
+  };
+};
+
+/**
+ * Camera-sized frame of random pixels, for benchmarking without a camera
+ */
+const createNoiseFrame = (width: number = 320, height: number = 240): CapturedFrame => {
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = Math.floor(Math.random() * 256);
+  }
+  return { data, width, height };
+};
+
 export default new ModelService();
@@ -0,0 +1,159 @@
+import type { TrackPoint } from './MotionTracker';
+
+// Letters signed with movement; the frame classifier cannot see them
+export const MOTION_LETTERS = ['J', 'Z'];
+
+export interface MotionSample {
+  // Static letter predicted for this frame, if confident
+  letter: string | null;
+  // Where the hand moved in this frame, if it moved
+  point: TrackPoint | null;
+}
+
+export interface MotionDetection {
+  letter: string;
+  // Static handshape the motion started from (may already be in the text)
+  handshape: string;
+}
+
+export interface MotionLetterConfig {
+  // Samples (frames) considered for one motion. useHandSignDetection captures
+  // at MOTION_FPS while the hand moves, so this covers about two seconds.
+  windowSize: number;
+  // Normalized movement below this is treated as jitter
+  minStepDistance: number;
+  // Total normalized distance the hand must travel
+  minPathLength: number;
+  // Share of samples that must show the pattern's handshape
+  minHandshapeShare: number;
+}
+
+export const DEFAULT_MOTION_CONFIG: MotionLetterConfig = {
+  windowSize: 12,
+  minStepDistance: 0.04,
+  minPathLength: 0.25,
+  minHandshapeShare: 0.3,
+};
+
+interface MotionPattern {
+  letter: string;
+  handshapes: string[];
+  // Matched against the end of the space-separated stroke directions.
+  // Both mirror images are accepted since the camera may face the signer
+  // or be mirrored.
+  strokes: RegExp;
+}
+
+const MOTION_PATTERNS: MotionPattern[] = [
+  // J: pinky (I handshape) traces down, then hooks sideways/up
+  {
+    letter: 'J',
+    handshapes: ['I'],
+    strokes: /(^| )D (DL |DR )?(L|R|UL|UR|DL|DR)$/,
+  },
+  // Z: index finger traces across, diagonally back, then across again
+  {
+    letter: 'Z',
+    handshapes: ['D', 'X'],
+    strokes: /(^| )(R (DL|D) R|L (DR|D) L)$/,
+  },
+];
+
+const DIRECTIONS = ['R', 'DR', 'D', 'DL', 'L', 'UL', 'U', 'UR'];
+
+/**
+ * Recognizes motion letters (J, Z) from a short sequence of frames by
+ * combining the static handshape predictions with the hand trajectory.
+ */
+export class MotionLetterDetector {
+  private config: MotionLetterConfig;
+  private samples: MotionSample[] = [];
+
+  constructor(config: Partial<MotionLetterConfig> = {}) {
+    this.config = { ...DEFAULT_MOTION_CONFIG, ...config };
+  }
+
+  /**
+   * Add one frame. Returns the motion letter if this frame completed one.
+   */
+  push(sample: MotionSample): MotionDetection | null {
+    this.samples.push(sample);
+    if (this.samples.length > this.config.windowSize) {
+      this.samples.shift();
+    }
+
+    const { strokes, pathLength } = this.getStrokes();
+    if (pathLength < this.config.minPathLength) {
+      return null;
+    }
+
+    for (const pattern of MOTION_PATTERNS) {
+      const handshape = this.getHandshape(pattern.handshapes);
+      if (handshape && pattern.strokes.test(strokes.join(' '))) {
+        // Start over so the same motion is not reported twice
+        this.samples = [];
+        return { letter: pattern.letter, handshape };
+      }
+    }
+
+    return null;
+  }
+
+  reset(): void {
+    this.samples = [];
+  }
+
+  /**
+   * Quantize the trajectory into 8 compass directions, merging repeats
+   */
+  private getStrokes(): { strokes: string[]; pathLength: number } {
+    const strokes: string[] = [];
+    let pathLength = 0;
+    let anchor: TrackPoint | null = null;
+
+    for (const { point } of this.samples) {
+      if (!point) continue;
+      if (!anchor) {
+        anchor = point;
+        continue;
+      }
+
+      const dx = point.x - anchor.x;
+      const dy = point.y - anchor.y;
+      const distance = Math.hypot(dx, dy);
+      if (distance < this.config.minStepDistance) continue;
+
+      // Image y grows downward, so positive angles point down
+      const sector = Math.round(Math.atan2(dy, dx) / (Math.PI / 4));
+      const direction = DIRECTIONS[(sector + 8) % 8];
+      if (strokes[strokes.length - 1] !== direction) {
+        strokes.push(direction);
+      }
+
+      pathLength += distance;
+      anchor = point;
+    }
+
+    return { strokes, pathLength };
+  }
+
+  /**
+   * Most frequent of the given handshapes, if it appears often enough
+   */
+  private getHandshape(handshapes: string[]): string | null {
+    let best: string | null = null;
+    let bestCount = 0;
+
+    for (const handshape of handshapes) {
+      const count = this.samples.filter((s) => s.letter === handshape).length;
+      if (count > bestCount) {
+        best = handshape;
+        bestCount = count;
+      }
+    }
+
+    return bestCount >= this.samples.length * this.config.minHandshapeShare
+      ? best
+      : null;
+  }
+}
@@ -0,0 +1,89 @@
+import type { CapturedFrame } from './FrameCaptureService';
+
+// Frames are compared on a coarse grayscale grid; hand motion is large enough
+// to show up there and it keeps the per-frame cost on the JS thread tiny
+const GRID_WIDTH = 32;
+const GRID_HEIGHT = 24;
+const DIFF_THRESHOLD = 30;
+// Fraction of grid cells that must change for the frame to count as motion
+const MIN_MOVING_FRACTION = 0.02;
+
+export interface TrackPoint {
+  // Normalized 0-1 image coordinates of the moving region's centroid
+  x: number;
+  y: number;
+}
+
+/**
+ * Estimates where the moving hand is by differencing consecutive frames.
+ * Not a hand detector: it follows whatever moves, which for fingerspelling
+ * in front of a still camera is the signing hand.
+ */
+export class MotionTracker {
+  private previous: Uint8Array | null = null;
+
+  /**
+   * Feed the next frame. Returns the centroid of the motion since the
+   * previous frame, or null if nothing moved (or this is the first frame).
+   */
+  track(frame: CapturedFrame): TrackPoint | null {
+    if (frame.width === 0 || frame.height === 0) {
+      return null;
+    }
+
+    const current = this.toGrid(frame);
+    const previous = this.previous;
+    this.previous = current;
+
+    if (!previous) {
+      return null;
+    }
+
+    let moving = 0;
+    let sumX = 0;
+    let sumY = 0;
+
+    for (let y = 0; y < GRID_HEIGHT; y++) {
+      for (let x = 0; x < GRID_WIDTH; x++) {
+        const i = y * GRID_WIDTH + x;
+        if (Math.abs(current[i] - previous[i]) > DIFF_THRESHOLD) {
+          moving++;
+          sumX += x;
+          sumY += y;
+        }
+      }
+    }
+
+    if (moving < GRID_WIDTH * GRID_HEIGHT * MIN_MOVING_FRACTION) {
+      return null;
+    }
+
+    return {
+      x: (sumX / moving + 0.5) / GRID_WIDTH,
+      y: (sumY / moving + 0.5) / GRID_HEIGHT,
+    };
+  }
+
+  reset(): void {
+    this.previous = null;
+  }
+
+  /**
+   * Nearest-neighbour downsample of RGBA pixels to a grayscale grid
+   */
+  private toGrid(frame: CapturedFrame): Uint8Array {
+    const grid = new Uint8Array(GRID_WIDTH * GRID_HEIGHT);
+
+    for (let gy = 0; gy < GRID_HEIGHT; gy++) {
+      const y = Math.floor(((gy + 0.5) * frame.height) / GRID_HEIGHT);
+      for (let gx = 0; gx < GRID_WIDTH; gx++) {
+        const x = Math.floor(((gx + 0.5) * frame.width) / GRID_WIDTH);
+        const p = (y * frame.width + x) * 4;
+        grid[gy * GRID_WIDTH + gx] =
+          (frame.data[p] * 77 + frame.data[p + 1] * 150 + frame.data[p + 2] * 29) >> 8;
+      }
+    }
+
+    return grid;
+  }
+}
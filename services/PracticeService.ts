@@ -0,0 +1,97 @@
+import StorageService from './StorageService';
+import { MOTION_LETTERS } from './MotionLetterDetector';
+import { LETTER_LABELS } from './ModelManifest';
+
+const STATS_KEY = 'letterStats';
+// Attempts kept per letter for the recent accuracy used to find weak letters
+const RECENT_ATTEMPTS = 10;
+// Letters below this recent accuracy are drilled
+const WEAK_ACCURACY = 0.7;
+export const MAX_WEAK_LETTERS = 5;
+
+// Every letter the recognizer can confirm, static or motion
+export const PRACTICE_LETTERS = [...LETTER_LABELS, ...MOTION_LETTERS].sort();
+
+export type PracticeMode = 'all' | 'weak';
+
+export interface LetterStats {
+  attempts: number;
+  correct: number;
+  // Most recent last, true if signed correctly in time
+  recent: boolean[];
+  lastPracticedAt: number;
+}
+
+export type PracticeStats = Record<string, LetterStats>;
+
+/**
+ * Per-letter accuracy for practice mode, kept across launches
+ */
+class PracticeService {
+  private stats: PracticeStats | null = null;
+
+  async getStats(): Promise<PracticeStats> {
+    if (this.stats === null) {
+      this.stats = await StorageService.getJSON<PracticeStats>('practice', STATS_KEY, {});
+    }
+
+    return this.stats!;
+  }
+
+  async recordAttempt(letter: string, correct: boolean): Promise<LetterStats> {
+    const stats = await this.getStats();
+    const current = stats[letter] ?? { attempts: 0, correct: 0, recent: [], lastPracticedAt: 0 };
+
+    const updated: LetterStats = {
+      attempts: current.attempts + 1,
+      correct: current.correct + (correct ? 1 : 0),
+      recent: [...current.recent, correct].slice(-RECENT_ATTEMPTS),
+      lastPracticedAt: Date.now(),
+    };
+
+    this.stats = { ...stats, [letter]: updated };
+    await StorageService.setJSON('practice', STATS_KEY, this.stats);
+    return updated;
+  }
+
+  /**
+   * Letters with low recent accuracy, weakest first
+   */
+  async getWeakLetters(limit: number = MAX_WEAK_LETTERS): Promise<string[]> {
+    const stats = await this.getStats();
+
+    return Object.entries(stats)
+      .map(([letter, letterStats]) => ({ letter, accuracy: getRecentAccuracy(letterStats) }))
+      .filter(({ accuracy }) => accuracy !== null && accuracy < WEAK_ACCURACY)
+      .sort((a, b) => a.accuracy! - b.accuracy!)
+      .slice(0, limit)
+      .map(({ letter }) => letter);
+  }
+
+  /**
+   * Next letter to prompt. Weak mode drills the weak letters and falls back
+   * to all letters when there are none. Avoids repeating `previous`.
+   */
+  async pickNextLetter(mode: PracticeMode, previous: string | null): Promise<string> {
+    const weak = mode === 'weak' ? await this.getWeakLetters() : [];
+    const pool = weak.length > 0 ? weak : PRACTICE_LETTERS;
+    const choices = pool.length > 1 ? pool.filter((letter) => letter !== previous) : pool;
+
+    return choices[Math.floor(Math.random() * choices.length)];
+  }
+
+  async resetStats(): Promise<void> {
+    this.stats = {};
+    await StorageService.clearNamespace('practice');
+  }
+}
+
+/**
+ * Share of the recent attempts that were correct, or null if never practiced
+ */
+export function getRecentAccuracy(stats: LetterStats | undefined): number | null {
+  if (!stats || stats.recent.length === 0) return null;
+  return stats.recent.filter(Boolean).length / stats.recent.length;
+}
+
+export default new PracticeService();
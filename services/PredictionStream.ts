@@ -0,0 +1,151 @@
+import type { EncodedFrame } from './FrameEncoder';
+import type { ServerPrediction } from './TFLiteService';
+
+// Path of the server's WebSocket endpoint, advertised by /health
+export const STREAM_PATH = '/stream';
+const CONNECT_TIMEOUT_MS = 3000;
+// A frame without a reply in this time is given up on
+const FRAME_TIMEOUT_MS = 4000;
+
+interface PendingFrame {
+  resolve: (prediction: ServerPrediction) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Persistent WebSocket to the recognition server. Frames are pushed without
+ * waiting for earlier replies; each carries a sequence number that the
+ * server echoes back, so replies are matched to their frame even when
+ * several are in flight.
+ *
+ * Client sends `{type: 'frame', seq, image, width, height, format}` and the
+ * server answers `{type: 'prediction', seq, letter, confidence, index, top_k}`
+ * or `{type: 'error', seq, error}`.
+ */
+export class PredictionStream {
+  private socket: WebSocket | null = null;
+  private nextSeq = 1;
+  private pending = new Map<number, PendingFrame>();
+
+  /**
+   * @param onClose called once if the connection drops or fails to open
+   */
+  constructor(
+    private readonly apiUrl: string,
+    private readonly onClose: () => void = () => {}
+  ) {}
+
+  /**
+   * Open the connection. Rejects if the server doesn't accept it in time.
+   */
+  connect(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(toStreamUrl(this.apiUrl));
+      this.socket = socket;
+
+      const timer = setTimeout(() => {
+        reject(new Error('Stream connection timed out'));
+        this.close();
+      }, CONNECT_TIMEOUT_MS);
+
+      socket.onopen = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+
+      socket.onmessage = (event) => this.handleMessage(event.data);
+
+      socket.onerror = () => {
+        clearTimeout(timer);
+        reject(new Error('Stream connection failed'));
+      };
+
+      socket.onclose = () => {
+        clearTimeout(timer);
+        reject(new Error('Stream closed'));
+        this.handleClose();
+      };
+    });
+  }
+
+  isOpen(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  /**
+   * Send one frame and resolve with the server's prediction for it
+   */
+  send(frame: EncodedFrame): Promise<ServerPrediction> {
+    if (!this.socket || !this.isOpen()) {
+      return Promise.reject(new Error('Stream is not open'));
+    }
+
+    const seq = this.nextSeq++;
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(seq);
+        reject(new Error(`No reply to frame ${seq} after ${FRAME_TIMEOUT_MS}ms`));
+      }, FRAME_TIMEOUT_MS);
+
+      this.pending.set(seq, { resolve, reject, timer });
+      this.socket!.send(JSON.stringify({ type: 'frame', seq, ...frame }));
+    });
+  }
+
+  close(): void {
+    const socket = this.socket;
+    if (!socket) return;
+
+    this.handleClose();
+    socket.close();
+  }
+
+  private handleMessage(data: unknown): void {
+    let message: ServerPrediction & { type: 'prediction' | 'error'; seq: number };
+    try {
+      message = JSON.parse(String(data));
+    } catch {
+      console.warn('Ignoring malformed stream message');
+      return;
+    }
+
+    // Replies to frames that already timed out are dropped
+    const frame = this.pending.get(message.seq);
+    if (!frame) return;
+
+    this.pending.delete(message.seq);
+    clearTimeout(frame.timer);
+
+    if (message.type === 'error') {
+      frame.reject(new Error(`Backend error: ${message.error}`));
+    } else {
+      frame.resolve(message);
+    }
+  }
+
+  private handleClose(): void {
+    if (!this.socket) return;
+
+    const socket = this.socket;
+    this.socket = null;
+    socket.onopen = null;
+    socket.onmessage = null;
+    socket.onerror = null;
+    socket.onclose = null;
+
+    this.pending.forEach((frame) => {
+      clearTimeout(frame.timer);
+      frame.reject(new Error('Stream closed'));
+    });
+    this.pending.clear();
+    this.onClose();
+  }
+}
+
+/**
+ * ws:// (or wss://) URL of the stream endpoint on an http(s) server
+ */
+const toStreamUrl = (apiUrl: string): string =>
+  apiUrl.replace(/^http/i, 'ws') + STREAM_PATH;
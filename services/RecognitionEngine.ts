@@ -0,0 +1,90 @@
+import type { CapturedFrame } from './FrameCaptureService';
+
+// Number of ranked letters kept with each prediction
+export const TOP_K = 3;
+
+export interface LetterProbability {
+  letter: string;
+  probability: number;
+}
+
+export interface PredictionResult {
+  letter: string;
+  confidence: number;
+  index: number;
+  // Most likely letters, highest first; topK[0] is `letter`
+  topK: LetterProbability[];
+}
+
+// Where predictions come from: bundled tfjs model, the Flask server, or a
+// scripted demo sequence
+export type EngineType = 'on-device' | 'remote' | 'demo';
+
+// Why a prediction failed; screens map the code to their strings.
+// 'unknown' covers anything else, e.g. a failed capture or tfjs error.
+export type PredictionErrorCode = 'timedOut' | 'serverError' | 'network' | 'cancelled' | 'unknown';
+
+/**
+ * A failed prediction. `message` is the English detail, for logs.
+ */
+export class PredictionError extends Error {
+  readonly code: PredictionErrorCode;
+
+  constructor(code: PredictionErrorCode, message: string) {
+    super(message);
+    this.name = 'PredictionError';
+    this.code = code;
+  }
+}
+
+/**
+ * Prediction from a model's output distribution over `labels`
+ */
+export function toPrediction(
+  probabilities: ArrayLike<number>,
+  labels: string[],
+  k: number = TOP_K
+): PredictionResult {
+  const ranked = Array.from(probabilities, (probability, index) => ({ index, probability }))
+    .sort((a, b) => b.probability - a.probability)
+    .slice(0, Math.max(k, 1));
+
+  return {
+    letter: labels[ranked[0].index],
+    confidence: ranked[0].probability,
+    index: ranked[0].index,
+    topK: ranked.map(({ index, probability }) => ({ letter: labels[index], probability })),
+  };
+}
+
+/**
+ * Common shape shared by every recognition backend
+ */
+export interface RecognitionEngine {
+  readonly type: EngineType;
+  initialize(): Promise<void>;
+  predict(
+    imageData: Uint8Array,
+    width: number,
+    height: number
+  ): Promise<PredictionResult | null>;
+  /**
+   * Predict several frames in one call; results are in frame order
+   */
+  predictBatch?(frames: CapturedFrame[]): Promise<(PredictionResult | null)[]>;
+  isReady(): boolean;
+  /**
+   * Whether the engine can produce real predictions right now
+   */
+  isAvailable(): boolean;
+  /**
+   * Whether initialize() failed in a way that retrying won't fix, e.g. the
+   * model is not in this build
+   */
+  loadFailed?(): boolean;
+  /**
+   * Re-check availability, e.g. after the server URL changed
+   */
+  refresh?(): Promise<void>;
+  dispose(): void;
+}
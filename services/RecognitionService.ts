@@ -0,0 +1,212 @@
+import DemoEngine from './DemoEngine';
+import type { CapturedFrame } from './FrameCaptureService';
+import ModelService, { type BenchmarkReport } from './ModelService';
+import type {
+  EngineType,
+  PredictionResult,
+  RecognitionEngine,
+} from './RecognitionEngine';
+import TFLiteService, { BATCH_SIZE, type ConnectionState } from './TFLiteService';
+
+/**
+ * Picks the recognition engine to use: the demo engine if demo mode is on,
+ * otherwise on-device inference first, then the remote server. Screens talk
+ * to this instead of a specific engine.
+ */
+class RecognitionService {
+  // Ordered by preference
+  private engines: RecognitionEngine[] = [ModelService, TFLiteService];
+  private activeEngine: RecognitionEngine | null = null;
+  // Bumped on dispose, so a selection that was awaiting when it ran is dropped
+  private generation: number = 0;
+
+  async initialize(): Promise<void> {
+    if (this.activeEngine) {
+      return;
+    }
+
+    const generation = this.generation;
+    let engine: RecognitionEngine;
+    try {
+      engine = await this.selectEngine();
+    } catch (error) {
+      // Engines stop initializing when disposed; that is not a failure
+      if (generation !== this.generation) return;
+      throw error;
+    }
+
+    // Disposed while the engines were starting; the next initialize() selects again
+    if (generation !== this.generation) {
+      return;
+    }
+
+    this.activeEngine = engine;
+  }
+
+  private async selectEngine(): Promise<RecognitionEngine> {
+    // Demo mode is an explicit choice in Settings and never a fallback
+    if (await DemoEngine.getSelectedSequence()) {
+      await DemoEngine.initialize();
+      if (DemoEngine.isAvailable()) {
+        console.log('🎬 Using demo recognition engine');
+        return DemoEngine;
+      }
+    }
+
+    for (const engine of this.engines) {
+      // Already reported when it first failed
+      if (engine.loadFailed?.()) {
+        continue;
+      }
+
+      try {
+        await engine.initialize();
+      } catch (error) {
+        console.warn(`⚠️ ${engine.type} engine unavailable:`, error);
+        continue;
+      }
+
+      if (engine.isAvailable()) {
+        console.log(`✅ Using ${engine.type} recognition engine`);
+        return engine;
+      }
+    }
+
+    // Nothing is available; keep the last initialized engine so it can come
+    // back on refresh(), and let getActiveEngineType() report that nothing is live
+    const fallback = [...this.engines].reverse().find((engine) => engine.isReady());
+    if (!fallback) {
+      throw new Error('No recognition engine could be initialized');
+    }
+
+    console.warn('⚠️ No recognition engine available');
+    return fallback;
+  }
+
+  async predict(
+    imageData: Uint8Array,
+    width: number,
+    height: number
+  ): Promise<PredictionResult | null> {
+    if (!this.activeEngine) {
+      throw new Error('Recognition not initialized. Call initialize() first.');
+    }
+
+    return this.activeEngine.predict(imageData, width, height);
+  }
+
+  /**
+   * Predict several frames in order, in one request if the engine supports it
+   */
+  async predictBatch(
+    frames: CapturedFrame[]
+  ): Promise<(PredictionResult | null)[]> {
+    if (!this.activeEngine) {
+      throw new Error('Recognition not initialized. Call initialize() first.');
+    }
+
+    if (this.activeEngine.predictBatch) {
+      return this.activeEngine.predictBatch(frames);
+    }
+
+    const results: (PredictionResult | null)[] = [];
+    for (const frame of frames) {
+      results.push(
+        await this.activeEngine.predict(frame.data, frame.width, frame.height)
+      );
+    }
+    return results;
+  }
+
+  /**
+   * How many frames the caller should collect before predicting
+   */
+  getBatchSize(): number {
+    // Streamed frames are sent one by one, as soon as they are captured
+    if (this.isStreaming()) return 1;
+    return this.activeEngine?.predictBatch ? BATCH_SIZE : 1;
+  }
+
+  /**
+   * Whether the next frame can be sent before the previous one is answered,
+   * i.e. the remote engine is streaming
+   */
+  isStreaming(): boolean {
+    return this.activeEngine === TFLiteService && TFLiteService.isStreaming();
+  }
+
+  /**
+   * Re-select the engine (demo mode may have been toggled) and re-check
+   * whether it can still produce predictions
+   */
+  async refresh(): Promise<void> {
+    const generation = this.generation;
+    const engine = await this.selectEngine();
+    await engine.refresh?.();
+
+    // The screen was left while the engine was being checked
+    if (generation !== this.generation) {
+      return;
+    }
+
+    this.activeEngine = engine;
+  }
+
+  /**
+   * Title of the scripted sequence while demo mode is active
+   */
+  getDemoSequenceTitle(): string | null {
+    return this.activeEngine === DemoEngine ? DemoEngine.getSequenceTitle() : null;
+  }
+
+  /**
+   * Type of the engine producing real predictions, or null if none is
+   */
+  getActiveEngineType(): EngineType | null {
+    return this.activeEngine?.isAvailable() ? this.activeEngine.type : null;
+  }
+
+  /**
+   * Connection to the backend server while the remote engine is in use
+   * (including when it is the fallback with nothing available), else null
+   */
+  getConnectionState(): ConnectionState | null {
+    return this.activeEngine === TFLiteService ? TFLiteService.getConnectionState() : null;
+  }
+
+  /**
+   * Listen for the backend server connecting or dropping, which changes
+   * getActiveEngineType(). Returns an unsubscribe function.
+   */
+  subscribeToConnection(listener: (state: ConnectionState) => void): () => void {
+    return TFLiteService.subscribe(listener);
+  }
+
+  isReady(): boolean {
+    return this.activeEngine?.isReady() ?? false;
+  }
+
+  /**
+   * Time the on-device model stage by stage. The model is loaded for the run
+   * if no screen is using it; rejects if it cannot be loaded.
+   */
+  async benchmarkOnDevice(): Promise<BenchmarkReport> {
+    const wasReady = ModelService.isReady();
+    await ModelService.initialize();
+
+    try {
+      return await ModelService.benchmark();
+    } finally {
+      if (!wasReady) ModelService.dispose();
+    }
+  }
+
+  dispose(): void {
+    DemoEngine.dispose();
+    this.engines.forEach((engine) => engine.dispose());
+    this.activeEngine = null;
+    this.generation++;
+  }
+}
+
+export default new RecognitionService();
@@ -0,0 +1,163 @@
+import { checkServerModel, type ModelMismatch } from './ModelManifest';
+import StorageService from './StorageService';
+
+// Used until a server URL has been saved from the Settings screen
+export const DEFAULT_API_URL = 'http://192.168.1.30:5000';
+const SERVER_URL_KEY = 'serverUrl';
+const HEALTH_TIMEOUT_MS = 5000;
+
+// Why a server could not be reached; screens map the code to their strings
+export type ConnectionFailure =
+  | { code: 'invalidUrl' }
+  | { code: 'timedOut' }
+  | { code: 'httpStatus'; status: number }
+  // `message` is the platform's description of the network error
+  | { code: 'network'; message: string };
+
+export interface ConnectionTestResult {
+  ok: boolean;
+  modelLoaded: boolean;
+  error?: ConnectionFailure;
+  // Set when the server's model does not match the bundled manifest
+  modelMismatch?: ModelMismatch;
+  // Server accepts frames over a WebSocket at /stream
+  streaming?: boolean;
+}
+
+type ServerUrlListener = (url: string) => void;
+
+class ServerConfigService {
+  private serverUrl: string | null = null;
+  private listeners = new Set<ServerUrlListener>();
+
+  /**
+   * Saved server URL, or the default if none has been saved yet
+   */
+  async getServerUrl(): Promise<string> {
+    if (this.serverUrl === null) {
+      const saved = await StorageService.getItem('settings', SERVER_URL_KEY);
+      this.serverUrl = saved ?? DEFAULT_API_URL;
+    }
+
+    return this.serverUrl;
+  }
+
+  /**
+   * Validate, persist and broadcast a new server URL
+   */
+  async setServerUrl(url: string): Promise<string> {
+    const normalized = normalizeServerUrl(url);
+    if (!normalized) {
+      throw new Error(`Invalid server URL: ${url}`);
+    }
+
+    await StorageService.setItem('settings', SERVER_URL_KEY, normalized);
+
+    const changed = normalized !== this.serverUrl;
+    this.serverUrl = normalized;
+
+    if (changed) {
+      this.listeners.forEach((listener) => listener(normalized));
+    }
+
+    return normalized;
+  }
+
+  /**
+   * Call `/health` on the given server and report whether the model is loaded
+   * and matches the app's model manifest
+   */
+  async testConnection(url: string): Promise<ConnectionTestResult> {
+    const normalized = normalizeServerUrl(url);
+    if (!normalized) {
+      return { ok: false, modelLoaded: false, error: { code: 'invalidUrl' } };
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), HEALTH_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(`${normalized}/health`, {
+        method: 'GET',
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        return {
+          ok: false,
+          modelLoaded: false,
+          error: { code: 'httpStatus', status: response.status },
+        };
+      }
+
+      const data = await response.json();
+      const modelMismatch = checkServerModel({
+        modelVersion: data.model_version,
+        labels: data.labels,
+      });
+
+      return {
+        ok: true,
+        modelLoaded: data.model_loaded === true,
+        streaming: data.streaming === true,
+        ...(modelMismatch ? { modelMismatch } : {}),
+      };
+    } catch (error: any) {
+      return {
+        ok: false,
+        modelLoaded: false,
+        error:
+          error.name === 'AbortError'
+            ? { code: 'timedOut' }
+            : { code: 'network', message: error.message || String(error) },
+      };
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  /**
+   * Listen for server URL changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: ServerUrlListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+/**
+ * English description of a failure, for logs
+ */
+export function describeConnectionFailure(failure: ConnectionFailure): string {
+  switch (failure.code) {
+    case 'invalidUrl':
+      return 'Invalid URL';
+    case 'timedOut':
+      return 'Timed out';
+    case 'httpStatus':
+      return `Health check failed with status ${failure.status}`;
+    case 'network':
+      return failure.message;
+  }
+}
+
+/**
+ * Trim, add a missing http:// scheme and drop trailing slashes.
+ * Returns null if the result is not an http(s) URL with a host.
+ */
+export function normalizeServerUrl(url: string): string | null {
+  let normalized = url.trim();
+  if (!normalized) return null;
+
+  if (!/^https?:\/\//i.test(normalized)) {
+    normalized = `http://${normalized}`;
+  }
+  normalized = normalized.replace(/\/+$/, '');
+
+  const match = normalized.match(/^https?:\/\/([^/:?#\s]+)(:\d{1,5})?(\/[^\s]*)?$/i);
+  return match ? normalized : null;
+}
+
+export default new ServerConfigService();
@@ -0,0 +1,100 @@
+import { SIGN_DESCRIPTIONS, SIGN_IMAGES } from '@/assets/HAND_SIGNS/signs';
+import type { AppLanguage } from '@/constant/strings';
+import { SignLexiconData } from '@/data/signLexicon';
+
+export type DictionaryCategory = 'letter' | 'number' | 'word';
+
+export interface DictionaryEntry {
+  id: string;
+  // Shown on the tile and as the detail heading
+  title: string;
+  category: DictionaryCategory;
+  // How the sign is formed, in each app language
+  description: Record<AppLanguage, string>;
+  // Photo of the sign, if there is one yet
+  image?: number;
+  // Every spelling that translates to this sign
+  phrases: string[];
+}
+
+/**
+ * Every sign the app knows, for the Dictionary screen: the manual alphabet,
+ * numbers and the word lexicon
+ */
+class SignDictionaryService {
+  private entries: DictionaryEntry[];
+
+  constructor() {
+    const characterEntries = Object.keys(SIGN_DESCRIPTIONS).map(
+      (key): DictionaryEntry => ({
+        id: key,
+        title: key.toUpperCase(),
+        category: /^\d$/.test(key) ? 'number' : 'letter',
+        description: SIGN_DESCRIPTIONS[key],
+        image: SIGN_IMAGES[key],
+        phrases: [key],
+      })
+    );
+
+    const wordEntries = SignLexiconData.map(
+      (entry): DictionaryEntry => ({
+        id: `word-${entry.id}`,
+        title: entry.gloss,
+        category: 'word',
+        description: entry.description,
+        image: entry.media,
+        phrases: entry.phrases,
+      })
+    );
+
+    this.entries = [
+      ...characterEntries.sort((a, b) => compareCharacterKeys(a.id, b.id)),
+      ...wordEntries.sort((a, b) => a.title.localeCompare(b.title)),
+    ];
+  }
+
+  /**
+   * Entries in the category (all if not given) matching the query,
+   * with exact and prefix matches first
+   */
+  search(query: string, category?: DictionaryCategory): DictionaryEntry[] {
+    const inCategory = category
+      ? this.entries.filter((entry) => entry.category === category)
+      : this.entries;
+
+    const needle = query.trim().toLowerCase();
+    if (!needle) return inCategory;
+
+    const rank = (entry: DictionaryEntry): number => {
+      const names = [entry.title.toLowerCase(), ...entry.phrases];
+      if (names.some((name) => name === needle)) return 0;
+      if (names.some((name) => name.startsWith(needle))) return 1;
+      if (names.some((name) => name.includes(needle))) return 2;
+      return -1;
+    };
+
+    return inCategory
+      .map((entry) => ({ entry, rank: rank(entry) }))
+      .filter(({ rank }) => rank >= 0)
+      .sort((a, b) => a.rank - b.rank)
+      .map(({ entry }) => entry);
+  }
+
+  get(id: string): DictionaryEntry | null {
+    return this.entries.find((entry) => entry.id === id) ?? null;
+  }
+}
+
+// Ñ and NG sort right after N, as in the Filipino alphabet
+const FILIPINO_ORDER: Record<string, string> = { ñ: 'n~1', ng: 'n~2' };
+
+/**
+ * Alphabet order, numbers after letters
+ */
+const compareCharacterKeys = (a: string, b: string): number => {
+  const isNumber = (key: string) => /^\d$/.test(key);
+  if (isNumber(a) !== isNumber(b)) return isNumber(a) ? 1 : -1;
+  return (FILIPINO_ORDER[a] ?? a).localeCompare(FILIPINO_ORDER[b] ?? b);
+};
+
+export default new SignDictionaryService();
@@ -0,0 +1,181 @@
+import { DIGRAPH_SIGN_KEYS, normalizeToSignKey } from '@/assets/HAND_SIGNS/signs';
+import { SignLexiconData, type SignLexiconEntry } from '@/data/signLexicon';
+
+// Characters that make up a word; everything else is signed on its own
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+// Punctuation shown as a pause; other symbols (quotes, brackets, dashes) are not signed
+const PAUSE_PUNCTUATION = /[.,!?;:…]/;
+// Punctuation that ends a sentence, paused on longer than a comma
+const SENTENCE_END = /[.!?…]/;
+
+interface BaseToken {
+  // Source text this token covers, text.slice(start, end)
+  text: string;
+  start: number;
+  end: number;
+}
+
+export type SignToken =
+  | (BaseToken & { type: 'word'; entry: SignLexiconEntry })
+  | (BaseToken & { type: 'letter'; key: string })
+  | (BaseToken & { type: 'space' })
+  | (BaseToken & { type: 'pause'; sentenceEnd: boolean })
+  | (BaseToken & { type: 'unknown' });
+
+/**
+ * Turns typed text into the signs to show: lexicon words where they exist,
+ * fingerspelled letters otherwise
+ */
+class SignTranslationService {
+  private phrases = new Map<string, SignLexiconEntry>();
+  // Longest lexicon phrase, in words
+  private maxPhraseWords = 1;
+
+  constructor() {
+    for (const entry of SignLexiconData) {
+      for (const phrase of entry.phrases) {
+        const normalized = phrase.toLowerCase().trim().split(/\s+/);
+        this.phrases.set(normalized.join(' '), entry);
+        this.maxPhraseWords = Math.max(this.maxPhraseWords, normalized.length);
+      }
+    }
+  }
+
+  translate(text: string): SignToken[] {
+    const words = findWords(text);
+    const tokens: SignToken[] = [];
+    let position = 0;
+    let w = 0;
+
+    const pushGap = (end: number) => {
+      for (let i = position; i < end; i++) {
+        const ch = text[i];
+
+        // "ng" is one letter of the Filipino alphabet, with its own sign;
+        // only word-initial, see DIGRAPH_SIGN_KEYS
+        const wordStart = i === 0 || !WORD_CHAR.test(text[i - 1]);
+        const digraph =
+          wordStart &&
+          DIGRAPH_SIGN_KEYS.find(
+            (key) => text.slice(i, i + key.length).toLowerCase() === key
+          );
+        if (digraph && i + digraph.length <= end) {
+          const last = i + digraph.length;
+          tokens.push({
+            type: 'letter',
+            key: digraph,
+            text: text.slice(i, last),
+            start: i,
+            end: last,
+          });
+          i = last - 1;
+          continue;
+        }
+
+        const key = /\s/.test(ch) ? ' ' : normalizeToSignKey(ch);
+        const previous = tokens[tokens.length - 1];
+
+        // Runs of whitespace collapse into one pause
+        if (key === ' ' && previous?.type === 'space' && previous.end === i) {
+          previous.end = i + 1;
+          previous.text += ch;
+          continue;
+        }
+
+        const token = toCharToken(ch, key, i);
+        if (token) tokens.push(token);
+      }
+      position = end;
+    };
+
+    while (w < words.length) {
+      pushGap(words[w].start);
+
+      const match = this.matchPhrase(text, words, w);
+      if (match) {
+        const end = words[match.lastWord].end;
+        tokens.push({
+          type: 'word',
+          entry: match.entry,
+          text: text.slice(words[w].start, end),
+          start: words[w].start,
+          end,
+        });
+        position = end;
+        w = match.lastWord + 1;
+        continue;
+      }
+
+      // Not in the lexicon: fingerspell it
+      pushGap(words[w].end);
+      w++;
+    }
+
+    pushGap(text.length);
+    return tokens;
+  }
+
+  /**
+   * Longest lexicon phrase starting at `words[first]`. Phrase words must be
+   * separated by whitespace only, so "thank, you" is not "thank you".
+   */
+  private matchPhrase(
+    text: string,
+    words: { start: number; end: number }[],
+    first: number
+  ): { entry: SignLexiconEntry; lastWord: number } | null {
+    const last = Math.min(first + this.maxPhraseWords, words.length) - 1;
+
+    for (let lastWord = last; lastWord >= first; lastWord--) {
+      const parts: string[] = [];
+      let separated = true;
+
+      for (let i = first; i <= lastWord; i++) {
+        if (i > first && text.slice(words[i - 1].end, words[i].start).trim()) {
+          separated = false;
+          break;
+        }
+        parts.push(text.slice(words[i].start, words[i].end).toLowerCase());
+      }
+
+      const entry = separated ? this.phrases.get(parts.join(' ')) : undefined;
+      if (entry) return { entry, lastWord };
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Start and end of each run of word characters
+ */
+const findWords = (text: string): { start: number; end: number }[] => {
+  const words: { start: number; end: number }[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    if (!WORD_CHAR.test(text[i])) continue;
+
+    const start = i;
+    while (i < text.length && WORD_CHAR.test(text[i])) i++;
+    words.push({ start, end: i });
+  }
+
+  return words;
+};
+
+/**
+ * Token for one character, or null for symbols that are not signed
+ */
+const toCharToken = (ch: string, key: string | null, start: number): SignToken | null => {
+  const base = { text: ch, start, end: start + 1 };
+  if (key === ' ') return { ...base, type: 'space' };
+  if (key) return { ...base, type: 'letter', key };
+  if (PAUSE_PUNCTUATION.test(ch)) {
+    return { ...base, type: 'pause', sentenceEnd: SENTENCE_END.test(ch) };
+  }
+  // Letters from other alphabets are still shown, so nothing silently disappears
+  if (WORD_CHAR.test(ch)) return { ...base, type: 'unknown' };
+  return null;
+};
+
+export default new SignTranslationService();
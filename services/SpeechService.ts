@@ -0,0 +1,89 @@
+import * as Speech from 'expo-speech';
+import StorageService from './StorageService';
+
+const SPEECH_OPTIONS_KEY = 'speechOptions';
+
+export type SpeechLanguage = 'en' | 'fil';
+
+// BCP 47 codes passed to the platform text-to-speech engine
+export const SPEECH_LANGUAGE_CODES: Record<SpeechLanguage, string> = {
+  en: 'en-US',
+  fil: 'fil-PH',
+};
+
+export interface SpeechOptions {
+  language: SpeechLanguage;
+  // 1.0 is the normal speaking rate
+  rate: number;
+  // Voice identifier, or null for the platform default for the language
+  voice: string | null;
+  // Speak each word as soon as it is completed on the Camera screen
+  autoSpeak: boolean;
+}
+
+export const DEFAULT_SPEECH_OPTIONS: SpeechOptions = {
+  language: 'en',
+  rate: 1.0,
+  voice: null,
+  autoSpeak: false,
+};
+
+/**
+ * Reads translated text aloud so a hearing person can follow the signer
+ */
+class SpeechService {
+  private options: SpeechOptions | null = null;
+
+  async getOptions(): Promise<SpeechOptions> {
+    if (this.options === null) {
+      const saved = await StorageService.getJSON<Partial<SpeechOptions>>(
+        'settings',
+        SPEECH_OPTIONS_KEY,
+        {}
+      );
+      this.options = { ...DEFAULT_SPEECH_OPTIONS, ...saved };
+    }
+
+    return this.options!;
+  }
+
+  async setOptions(options: Partial<SpeechOptions>): Promise<SpeechOptions> {
+    const current = await this.getOptions();
+    this.options = { ...current, ...options };
+    await StorageService.setJSON('settings', SPEECH_OPTIONS_KEY, this.options);
+    return this.options;
+  }
+
+  /**
+   * Voices installed on the device for the given language
+   */
+  async getVoices(language: SpeechLanguage): Promise<Speech.Voice[]> {
+    const prefix = SPEECH_LANGUAGE_CODES[language].split('-')[0];
+    const voices = await Speech.getAvailableVoicesAsync();
+    return voices.filter((voice) => voice.language.toLowerCase().startsWith(prefix));
+  }
+
+  /**
+   * Speak the text with the saved options, interrupting anything being spoken
+   */
+  async speak(text: string): Promise<void> {
+    const trimmed = text.trim();
+    if (!trimmed) return;
+
+    const options = await this.getOptions();
+    await Speech.stop();
+
+    // All-caps text is often read out letter by letter
+    Speech.speak(trimmed.toLowerCase(), {
+      language: SPEECH_LANGUAGE_CODES[options.language],
+      rate: options.rate,
+      voice: options.voice ?? undefined,
+    });
+  }
+
+  async stop(): Promise<void> {
+    await Speech.stop();
+  }
+}
+
+export default new SpeechService();
@@ -0,0 +1,87 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// Every key the app stores is "@esalinify/<namespace>:<key>", so one feature
+// can clear its own data without touching anyone else's
+const KEY_PREFIX = '@esalinify';
+
+export type StorageNamespace = 'app' | 'settings' | 'history' | 'practice';
+
+// Keys written before namespacing, moved on first launch
+const LEGACY_KEYS: { key: string; namespace: StorageNamespace }[] = [
+  { key: 'hasOnBoarded', namespace: 'app' },
+];
+
+const toStorageKey = (namespace: StorageNamespace, key: string) =>
+  `${KEY_PREFIX}/${namespace}:${key}`;
+
+class StorageService {
+  private migration: Promise<void> | null = null;
+
+  async getItem(namespace: StorageNamespace, key: string): Promise<string | null> {
+    await this.migrateLegacyKeys();
+    return AsyncStorage.getItem(toStorageKey(namespace, key));
+  }
+
+  async setItem(namespace: StorageNamespace, key: string, value: string): Promise<void> {
+    await this.migrateLegacyKeys();
+    await AsyncStorage.setItem(toStorageKey(namespace, key), value);
+  }
+
+  async removeItem(namespace: StorageNamespace, key: string): Promise<void> {
+    await this.migrateLegacyKeys();
+    await AsyncStorage.removeItem(toStorageKey(namespace, key));
+  }
+
+  async getJSON<T>(namespace: StorageNamespace, key: string, fallback: T): Promise<T> {
+    const value = await this.getItem(namespace, key);
+    if (value === null) return fallback;
+
+    try {
+      return JSON.parse(value) as T;
+    } catch (error) {
+      console.warn(`Ignoring corrupt storage value for ${namespace}:${key}`, error);
+      return fallback;
+    }
+  }
+
+  async setJSON<T>(namespace: StorageNamespace, key: string, value: T): Promise<void> {
+    await this.setItem(namespace, key, JSON.stringify(value));
+  }
+
+  /**
+   * Remove every key in one namespace, leaving the rest of the app's data
+   */
+  async clearNamespace(namespace: StorageNamespace): Promise<void> {
+    await this.migrateLegacyKeys();
+    const prefix = toStorageKey(namespace, '');
+    const keys = await AsyncStorage.getAllKeys();
+    await AsyncStorage.multiRemove(keys.filter((key) => key.startsWith(prefix)));
+  }
+
+  /**
+   * Move values stored under the old un-namespaced keys. Runs once per launch.
+   */
+  private migrateLegacyKeys(): Promise<void> {
+    if (!this.migration) {
+      this.migration = (async () => {
+        try {
+          const entries = await AsyncStorage.multiGet(LEGACY_KEYS.map(({ key }) => key));
+
+          for (const [key, value] of entries) {
+            if (value === null) continue;
+
+            const { namespace } = LEGACY_KEYS.find((legacy) => legacy.key === key)!;
+            await AsyncStorage.setItem(toStorageKey(namespace, key), value);
+            await AsyncStorage.removeItem(key);
+          }
+        } catch (error) {
+          console.error('Error migrating storage keys:', error);
+        }
+      })();
+    }
+
+    return this.migration;
+  }
+}
+
+export default new StorageService();
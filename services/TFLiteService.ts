@@ -1,49 +1,85 @@
-// ⚙️ CONFIGURATION - UPDATE THIS WITH YOUR COMPUTER'S IP ADDRESS
-// Find your IP:
-//   Linux/Mac: Run `hostname -I | awk '{print $1}'` in terminal
-//   Windows: Run `ipconfig` and look for IPv4 Address
-const API_URL = "http://192.168.1.30:5000"; // 👈 CHANGE THIS TO YOUR IP
-
-// Labels matching your Python implementation
-export const LETTER_LABELS = [
-  "A",
-  "B",
-  "C",
-  "D",
-  "E",
-  "F",
-  "G",
-  "H",
-  "I",
-  "K",
-  "L",
-  "M",
-  "N",
-  "O",
-  "P",
-  "Q",
-  "R",
-  "S",
-  "T",
-  "U",
-  "V",
-  "W",
-  "X",
-  "Y",
-];
-
-export const CONFIDENCE_THRESHOLD = 0.85;
-export const STABILITY_FRAMES = 10;
-
-interface PredictionResult {
+import {
+  PredictionError,
+  type EngineType,
+  type LetterProbability,
+  type PredictionResult,
+  type RecognitionEngine,
+} from "./RecognitionEngine";
+import type { CapturedFrame } from "./FrameCaptureService";
+import { encodeFrame, type EncodedFrame } from "./FrameEncoder";
+import { describeModelMismatch, type ModelMismatch } from "./ModelManifest";
+import { PredictionStream } from "./PredictionStream";
+import ServerConfigService, {
+  describeConnectionFailure,
+  type ConnectionFailure,
+} from "./ServerConfigService";
+
+// Frames sent together to /batch-predict, one HTTP round-trip per batch
+export const BATCH_SIZE = 3;
+// A prediction request taking longer than this is aborted
+const REQUEST_TIMEOUT_MS = 4000;
+// Retries after a timeout, network error or 5xx, waiting RETRY_BASE_MS,
+// then twice that, and so on
+const MAX_RETRIES = 2;
+const RETRY_BASE_MS = 250;
+// Failed requests in a row (after retries) that open the circuit: requests
+// stop until a health check succeeds again
+const CIRCUIT_FAILURE_THRESHOLD = 3;
+// /health is polled in the background so the state follows the server
+export const HEALTH_POLL_MS = 5000;
+
+export type ConnectionStatus =
+  // First health check still running
+  | "connecting"
+  | "connected"
+  // Server reachable but it can't predict: model not loaded or mismatched
+  | "unavailable"
+  // Server unreachable, or too many failed requests
+  | "disconnected";
+
+export interface ConnectionState {
+  status: ConnectionStatus;
+  // Why the server is disconnected
+  error?: ConnectionFailure;
+  // Why the server is unavailable, if its model differs from the app's;
+  // unset when it is unavailable because no model is loaded
+  modelMismatch?: ModelMismatch;
+  // Open after repeated request failures; closes on the next healthy check
+  circuitOpen: boolean;
+}
+
+/**
+ * One prediction as the server sends it from /predict, /batch-predict and
+ * the stream
+ */
+export interface ServerPrediction {
   letter: string;
   confidence: number;
   index: number;
+  // Ranked letters; older servers only report the winning one
+  top_k?: LetterProbability[];
+  // Set instead of a prediction when the server could not process the frame
+  error?: string;
 }
 
-class TFLiteService {
+type ConnectionListener = (state: ConnectionState) => void;
+
+class TFLiteService implements RecognitionEngine {
+  readonly type: EngineType = "remote";
   private isInitialized: boolean = false;
   private isBackendAvailable: boolean = false;
+  private apiUrl: string = "";
+  private unsubscribeConfig: (() => void) | null = null;
+  private connection: ConnectionState = { status: "connecting", circuitOpen: false };
+  private listeners = new Set<ConnectionListener>();
+  private consecutiveFailures: number = 0;
+  private pollTimer: ReturnType<typeof setTimeout> | null = null;
+  // In-flight requests, aborted on dispose or when the server URL changes
+  private pendingRequests = new Set<AbortController>();
+  // Open while the server supports streaming; HTTP is used otherwise
+  private stream: PredictionStream | null = null;
+  // Bumped on dispose, so work that was awaiting when it ran stops there
+  private generation: number = 0;
 
   async initialize(): Promise<void> {
     try {
@@ -51,57 +87,284 @@ class TFLiteService {
         return;
       }
 
-      console.log("Checking backend connection...");
+      const generation = this.generation;
 
-      // Check if backend is available
-      try {
-        console.log(`🔍 Trying to connect to: ${API_URL}/health`);
+      // Server URL is configured from the Settings screen
+      const apiUrl = await ServerConfigService.getServerUrl();
+      if (generation !== this.generation) {
+        return;
+      }
+
+      this.apiUrl = apiUrl;
+      this.unsubscribeConfig = ServerConfigService.subscribe((url) => {
+        this.apiUrl = url;
+        this.isBackendAvailable = false;
+        this.abortPendingRequests();
+        this.closeStream();
+        this.consecutiveFailures = 0;
+        this.setConnection({ status: "connecting", circuitOpen: false });
+        this.refresh();
+      });
+
+      await this.refresh();
+      if (generation !== this.generation) {
+        return;
+      }
+
+      this.isInitialized = true;
+      this.schedulePoll();
+      console.log("Model service ready");
+    } catch (error) {
+      console.error("Error initializing model:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check if backend is available at the configured URL. A healthy check
+   * also closes the circuit.
+   */
+  async refresh(): Promise<void> {
+    const apiUrl = this.apiUrl;
+    const generation = this.generation;
+    const result = await ServerConfigService.testConnection(apiUrl);
+
+    // Disposed, or the URL changed, while the check was running
+    if (generation !== this.generation || apiUrl !== this.apiUrl) {
+      return;
+    }
+
+    this.isBackendAvailable = result.ok && result.modelLoaded && !result.modelMismatch;
+
+    if (this.isBackendAvailable && result.streaming) {
+      this.openStream();
+    } else {
+      this.closeStream();
+    }
+
+    if (this.isBackendAvailable) {
+      this.consecutiveFailures = 0;
+      this.setConnection({ status: "connected", circuitOpen: false });
+    } else if (result.ok) {
+      this.setConnection({
+        status: "unavailable",
+        modelMismatch: result.modelMismatch,
+        circuitOpen: false,
+      });
+    } else {
+      this.setConnection({
+        status: "disconnected",
+        error: result.error,
+        circuitOpen: this.connection.circuitOpen,
+      });
+    }
+  }
+
+  getConnectionState(): ConnectionState {
+    return this.connection;
+  }
+
+  /**
+   * Listen for connection state changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: ConnectionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private setConnection(next: ConnectionState): void {
+    const previous = this.connection;
+    this.connection = next;
+
+    if (
+      previous.status === next.status &&
+      describeConnection(previous) === describeConnection(next) &&
+      previous.circuitOpen === next.circuitOpen
+    ) {
+      return;
+    }
+
+    this.logConnection(next);
+    this.listeners.forEach((listener) => listener(next));
+  }
+
+  private logConnection(state: ConnectionState): void {
+    const apiUrl = this.apiUrl;
+
+    if (state.status === "connected") {
+      console.log("✅ Backend connected and model loaded!");
+      console.log(`   API URL: ${apiUrl}`);
+    } else if (state.status === "unavailable") {
+      // Predictions would map to the wrong letters, so the backend is not used
+      console.warn(`⚠️ Backend connected but not usable: ${describeConnection(state)}`);
+    } else if (state.status === "disconnected") {
+      console.error("❌ Backend connection failed!");
+      console.error(`   URL: ${apiUrl}`);
+      console.error(`   Error: ${describeConnection(state)}`);
+      if (state.circuitOpen) {
+        console.warn(`   Requests paused until ${apiUrl}/health responds again`);
+        return;
+      }
+      console.warn("\n💡 Troubleshooting:");
+      console.warn("   1. Is backend running? Run: cd backend && python3 server.py");
+      console.warn("   2. Are phone and computer on same WiFi?");
+      console.warn("   3. Is the server URL correct in Settings?");
+      console.warn(`   4. Try opening ${apiUrl}/health in phone browser\n`);
+    }
+  }
+
+  /**
+   * Poll /health until disposed, one check at a time
+   */
+  private schedulePoll(): void {
+    const generation = this.generation;
+
+    this.pollTimer = setTimeout(async () => {
+      await this.refresh();
+      // A dispose (and re-initialize) during the check has its own poll
+      if (generation === this.generation && this.isInitialized) {
+        this.schedulePoll();
+      }
+    }, HEALTH_POLL_MS);
+  }
+
+  /**
+   * POST JSON with a timeout, retrying timeouts, network errors and 5xx
+   * responses with exponential backoff. Repeated failures open the circuit.
+   */
+  private async postJson<T>(path: string, body: unknown): Promise<T> {
+    const payload = JSON.stringify(body);
+    let lastError: Error = new PredictionError("network", "Request failed");
+
+    for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+      if (attempt > 0) {
+        await delay(RETRY_BASE_MS * 2 ** (attempt - 1));
+      }
 
-        const response = await fetch(`${API_URL}/health`, {
-          method: "GET",
+      // Stop retrying if the circuit opened or the URL changed meanwhile
+      if (!this.isBackendAvailable) {
+        throw lastError;
+      }
+
+      const controller = new AbortController();
+      let timedOut = false;
+      const timeout = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, REQUEST_TIMEOUT_MS);
+      this.pendingRequests.add(controller);
+
+      try {
+        const response = await fetch(`${this.apiUrl}${path}`, {
+          method: "POST",
           headers: {
             "Content-Type": "application/json",
           },
+          body: payload,
+          signal: controller.signal,
         });
 
-        console.log(`📡 Response status: ${response.status}`);
-
-        if (response.ok) {
-          const data = await response.json();
-          this.isBackendAvailable = data.model_loaded === true;
-
-          if (this.isBackendAvailable) {
-            console.log("✅ Backend connected and model loaded!");
-            console.log(`   API URL: ${API_URL}`);
-          } else {
-            console.warn("⚠️ Backend connected but model not loaded");
-          }
-        } else {
-          console.warn(`⚠️ Backend health check failed with status: ${response.status}`);
-          this.isBackendAvailable = false;
+        // Client errors will fail the same way again
+        if (response.status < 500 && !response.ok) {
+          throw new NonRetryableError(
+            "serverError",
+            `Request to ${path} failed with status ${response.status}`
+          );
+        }
+        if (!response.ok) {
+          throw new PredictionError(
+            "serverError",
+            `Request to ${path} failed with status ${response.status}`
+          );
         }
+
+        const result: T = await response.json();
+        this.consecutiveFailures = 0;
+        return result;
       } catch (error: any) {
-        console.error("❌ Backend connection failed!");
-        console.error(`   URL: ${API_URL}`);
-        console.error(`   Error: ${error.message || error}`);
-        console.warn("\n💡 Troubleshooting:");
-        console.warn("   1. Is backend running? Run: cd backend && python3 server.py");
-        console.warn("   2. Are phone and computer on same WiFi?");
-        console.warn("   3. Is the IP address correct in TFLiteService.ts?");
-        console.warn(`   4. Try opening http://${API_URL.replace('http://', '')}/health in phone browser\n`);
-        this.isBackendAvailable = false;
+        if (error instanceof NonRetryableError) {
+          throw error;
+        }
+
+        // Cancelled by dispose or a URL change, not a server failure
+        if (error.name === "AbortError" && !timedOut) {
+          throw new PredictionError("cancelled", `Request to ${path} was cancelled`);
+        }
+
+        lastError =
+          error instanceof PredictionError
+            ? error
+            : error.name === "AbortError"
+            ? new PredictionError(
+                "timedOut",
+                `Request to ${path} timed out after ${REQUEST_TIMEOUT_MS}ms`
+              )
+            : new PredictionError("network", error.message || String(error));
+      } finally {
+        clearTimeout(timeout);
+        this.pendingRequests.delete(controller);
       }
+    }
 
-      this.isInitialized = true;
-      console.log("Model service ready");
-    } catch (error) {
-      console.error("Error initializing model:", error);
-      throw error;
+    this.recordFailure(lastError);
+    throw lastError;
+  }
+
+  private recordFailure(error: Error): void {
+    this.consecutiveFailures++;
+    if (this.consecutiveFailures < CIRCUIT_FAILURE_THRESHOLD) {
+      return;
     }
+
+    // Stop sending frames; the health poll closes the circuit
+    this.isBackendAvailable = false;
+    const failure: ConnectionFailure =
+      error instanceof PredictionError && error.code === "timedOut"
+        ? { code: "timedOut" }
+        : { code: "network", message: error.message };
+    this.setConnection({ status: "disconnected", error: failure, circuitOpen: true });
+  }
+
+  /**
+   * Connect the prediction stream if it isn't open. If it fails or drops,
+   * requests go over HTTP until the next health check reopens it.
+   */
+  private openStream(): void {
+    if (this.stream) return;
+
+    const stream = new PredictionStream(this.apiUrl, () => {
+      if (this.stream === stream) {
+        this.stream = null;
+        console.warn("⚠️ Prediction stream closed, using HTTP");
+      }
+    });
+    this.stream = stream;
+
+    stream
+      .connect()
+      .then(() => console.log("⚡ Streaming predictions over WebSocket"))
+      .catch((error) => {
+        console.warn(`⚠️ Streaming unavailable, using HTTP: ${error.message}`);
+        stream.close();
+      });
+  }
+
+  private closeStream(): void {
+    const stream = this.stream;
+    this.stream = null;
+    stream?.close();
+  }
+
+  private abortPendingRequests(): void {
+    this.pendingRequests.forEach((controller) => controller.abort());
+    this.pendingRequests.clear();
   }
 
   /**
-   * Process image data and return prediction
+   * Process image data and return prediction.
+   * Returns null when the backend is unavailable; throws if a request fails.
    */
   async predict(
     imageData: Uint8Array,
@@ -112,76 +375,97 @@ class TFLiteService {
       throw new Error("Model not initialized. Call initialize() first.");
     }
 
-    // If backend is not available, return demo prediction
+    // No prediction while the backend is unavailable
     if (!this.isBackendAvailable) {
-      return this.getDemoPrediction();
+      return null;
     }
 
-    try {
-      // Convert image to base64
-      const base64Image = this.arrayBufferToBase64(imageData);
-
-      // Send to backend API
-      const response = await fetch(`${API_URL}/predict`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          image: base64Image,
-        }),
-      });
-
-      if (!response.ok) {
-        console.error("Prediction request failed:", response.status);
-        return this.getDemoPrediction();
-      }
+    // Downscale and encode for upload
+    const frame = await encodeFrame({ data: imageData, width, height });
 
-      const result = await response.json();
-
-      if (result.error) {
-        console.error("Backend error:", result.error);
-        return this.getDemoPrediction();
+    // Send to backend API, over the stream when it is open
+    let result: ServerPrediction | null = null;
+    if (this.stream?.isOpen()) {
+      try {
+        result = await this.stream.send(frame);
+      } catch (error: any) {
+        console.warn(`Stream prediction failed, retrying over HTTP: ${error.message}`);
       }
+    }
+    result ??= await this.postJson<ServerPrediction>("/predict", frame);
 
-      return {
-        letter: result.letter,
-        confidence: result.confidence,
-        index: result.index,
-      };
-    } catch (error) {
-      console.error("Error during prediction:", error);
-      // Fallback to demo mode on error
-      return this.getDemoPrediction();
+    if (result.error) {
+      throw new PredictionError("serverError", `Backend error: ${result.error}`);
     }
+
+    return this.toPredictionResult(result);
   }
 
   /**
-   * Convert Uint8Array to base64
+   * Send several frames in one /batch-predict request.
+   * Results are in frame order; a frame the server could not process is null.
    */
-  private arrayBufferToBase64(buffer: Uint8Array): string {
-    let binary = "";
-    const bytes = new Uint8Array(buffer);
-    const len = bytes.byteLength;
+  async predictBatch(
+    frames: CapturedFrame[]
+  ): Promise<(PredictionResult | null)[]> {
+    if (!this.isInitialized) {
+      throw new Error("Model not initialized. Call initialize() first.");
+    }
+
+    if (!this.isBackendAvailable || frames.length === 0) {
+      return frames.map(() => null);
+    }
+
+    const images: EncodedFrame[] = await Promise.all(frames.map(encodeFrame));
 
-    for (let i = 0; i < len; i++) {
-      binary += String.fromCharCode(bytes[i]);
+    // Streamed frames are all in flight at once; a frame the server
+    // rejected is null, but if the stream dropped the batch goes over HTTP
+    const stream = this.stream;
+    if (stream?.isOpen()) {
+      const settled = await Promise.allSettled(images.map((image) => stream.send(image)));
+      if (stream.isOpen()) {
+        return settled.map((outcome) =>
+          outcome.status === "fulfilled" ? this.toPredictionResult(outcome.value) : null
+        );
+      }
+    }
+
+    const result = await this.postJson<{ predictions?: ServerPrediction[]; error?: string }>(
+      "/batch-predict",
+      { images }
+    );
+
+    if (result.error) {
+      throw new PredictionError("serverError", `Backend error: ${result.error}`);
     }
 
-    return btoa(binary);
+    return frames.map((_, i) => {
+      const prediction = result.predictions?.[i];
+      if (!prediction || prediction.error) {
+        return null;
+      }
+
+      return this.toPredictionResult(prediction);
+    });
   }
 
   /**
-   * Generate demo prediction (fallback when backend is unavailable)
+   * Map one prediction from the server response. Servers without `top_k`
+   * only report the winning letter.
    */
-  private getDemoPrediction(): PredictionResult {
-    const mockIndex = Math.floor(Math.random() * LETTER_LABELS.length);
-    const mockConfidence = 0.5 + Math.random() * 0.5;
+  private toPredictionResult(prediction: ServerPrediction): PredictionResult {
+    const topK: LetterProbability[] = Array.isArray(prediction.top_k)
+      ? prediction.top_k.map((entry) => ({
+          letter: entry.letter,
+          probability: entry.probability,
+        }))
+      : [{ letter: prediction.letter, probability: prediction.confidence }];
 
     return {
-      letter: LETTER_LABELS[mockIndex],
-      confidence: mockConfidence,
-      index: mockIndex,
+      letter: prediction.letter,
+      confidence: prediction.confidence,
+      index: prediction.index,
+      topK,
     };
   }
 
@@ -192,14 +476,55 @@ class TFLiteService {
     return this.isBackendAvailable;
   }
 
+  /**
+   * Whether frames go over the prediction stream, which matches each reply
+   * to its frame so several can be in flight
+   */
+  isStreaming(): boolean {
+    return this.isBackendAvailable && (this.stream?.isOpen() ?? false);
+  }
+
   isReady(): boolean {
     return this.isInitialized;
   }
 
+  isAvailable(): boolean {
+    return this.isInitialized && this.isBackendAvailable;
+  }
+
   dispose(): void {
+    this.generation++;
+    this.unsubscribeConfig?.();
+    this.unsubscribeConfig = null;
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+    this.abortPendingRequests();
+    this.closeStream();
     this.isInitialized = false;
     this.isBackendAvailable = false;
+    this.consecutiveFailures = 0;
+    this.connection = { status: "connecting", circuitOpen: false };
   }
 }
 
+/**
+ * A request that failed in a way retrying won't fix
+ */
+class NonRetryableError extends PredictionError {}
+
+/**
+ * English reason the server can't be used, for logs
+ */
+const describeConnection = (state: ConnectionState): string | undefined =>
+  state.modelMismatch
+    ? describeModelMismatch(state.modelMismatch)
+    : state.status === "unavailable"
+    ? "Model not loaded"
+    : state.error && describeConnectionFailure(state.error);
+
+const delay = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
 export default new TFLiteService();
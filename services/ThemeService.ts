@@ -0,0 +1,25 @@
+import type { ThemeName } from '@/constant/colors';
+import StorageService from './StorageService';
+
+const THEME_KEY = 'theme';
+
+// 'system' follows the device's dark mode and contrast settings
+export type ThemePreference = 'system' | ThemeName;
+
+const PREFERENCES: ThemePreference[] = ['system', 'light', 'dark', 'highContrast'];
+
+/**
+ * Remembers the theme chosen in Settings
+ */
+class ThemeService {
+  async getPreference(): Promise<ThemePreference> {
+    const saved = await StorageService.getItem('settings', THEME_KEY);
+    return PREFERENCES.includes(saved as ThemePreference) ? (saved as ThemePreference) : 'system';
+  }
+
+  async setPreference(preference: ThemePreference): Promise<void> {
+    await StorageService.setItem('settings', THEME_KEY, preference);
+  }
+}
+
+export default new ThemeService();
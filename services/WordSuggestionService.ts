@@ -0,0 +1,112 @@
+import { ENGLISH_WORDS, FILIPINO_WORDS } from '@/data/wordList';
+
+export type SuggestionLanguage = 'en' | 'fil' | 'all';
+
+export const MAX_SUGGESTIONS = 3;
+
+// Cost of a typed letter being wrong or extra is its confidence, so a letter
+// the model was unsure about is cheap to correct; a missed letter costs 1
+const MISSING_LETTER_COST = 1;
+// Added per frequency rank position (normalized), to break ties toward common words
+const RANK_WEIGHT = 0.5;
+
+interface DictionaryWord {
+  word: string;
+  language: 'en' | 'fil';
+  // 0 for the most common word, approaching 1 for the rarest
+  rank: number;
+}
+
+/**
+ * Completes and corrects the word being fingerspelled, using the bundled
+ * English and Filipino word lists
+ */
+class WordSuggestionService {
+  private dictionary: DictionaryWord[];
+
+  constructor() {
+    const toEntries = (words: string[], language: 'en' | 'fil') =>
+      words.map((word, i) => ({
+        word: word.toUpperCase(),
+        language,
+        rank: i / words.length,
+      }));
+
+    this.dictionary = [
+      ...toEntries(ENGLISH_WORDS, 'en'),
+      ...toEntries(FILIPINO_WORDS, 'fil'),
+    ];
+  }
+
+  /**
+   * Most likely words for the letters signed so far.
+   * `confidences[i]` is the model confidence of `letters[i]` (defaults to 1).
+   */
+  getSuggestions(
+    letters: string,
+    confidences: number[] = [],
+    language: SuggestionLanguage = 'all',
+    limit: number = MAX_SUGGESTIONS
+  ): string[] {
+    const typed = letters.toUpperCase();
+    if (!typed) return [];
+
+    const maxCost = typed.length <= 2 ? 0 : typed.length <= 4 ? 1 : 2;
+    const best = new Map<string, number>();
+
+    for (const entry of this.dictionary) {
+      if (language !== 'all' && entry.language !== language) continue;
+      if (entry.word.length < typed.length - maxCost) continue;
+
+      const cost = this.prefixDistance(typed, confidences, entry.word);
+      if (cost > maxCost) continue;
+
+      const score = cost + entry.rank * RANK_WEIGHT;
+      const previous = best.get(entry.word);
+      if (previous === undefined || score < previous) {
+        best.set(entry.word, score);
+      }
+    }
+
+    return [...best.entries()]
+      .sort((a, b) => a[1] - b[1])
+      .slice(0, limit)
+      .map(([word]) => word);
+  }
+
+  /**
+   * Weighted edit distance between the typed letters and the closest
+   * prefix of `word`, so "HEL" is 0 away from "HELLO"
+   */
+  private prefixDistance(typed: string, confidences: number[], word: string): number {
+    const letterCost = (i: number) => confidences[i] ?? 1;
+
+    // previous[j]: cost of turning typed[0..i) into word[0..j)
+    let previous = new Array<number>(word.length + 1);
+    previous[0] = 0;
+    for (let j = 1; j <= word.length; j++) {
+      previous[j] = j * MISSING_LETTER_COST;
+    }
+
+    for (let i = 1; i <= typed.length; i++) {
+      const current = new Array<number>(word.length + 1);
+      current[0] = previous[0] + letterCost(i - 1);
+
+      for (let j = 1; j <= word.length; j++) {
+        const substitution =
+          typed[i - 1] === word[j - 1] ? 0 : letterCost(i - 1);
+        current[j] = Math.min(
+          previous[j - 1] + substitution,
+          previous[j] + letterCost(i - 1), // extra typed letter
+          current[j - 1] + MISSING_LETTER_COST // missed letter
+        );
+      }
+
+      previous = current;
+    }
+
+    return Math.min(...previous);
+  }
+}
+
+export default new WordSuggestionService();